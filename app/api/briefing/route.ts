@@ -0,0 +1,39 @@
+import { markBriefingDelivered, runScheduledBriefing } from '@/lib/briefing'
+
+function log(...args: any[]) {
+  const timestamp = new Date().toISOString()
+  console.log(`[BriefingAPI ${timestamp}]`, ...args)
+}
+
+// Polled by the UI. Sends the morning briefing once its time has come today,
+// until the UI confirms with `delivered` that it showed the notification.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+    const calendarUrl = typeof body?.calendarUrl === 'string' ? body.calendarUrl.trim() : ''
+    const delivered = typeof body?.delivered === 'string' ? body.delivered : ''
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath is required' }, { status: 400 })
+    }
+
+    if (delivered) {
+      await markBriefingDelivered(notesFolderPath, delivered)
+      return Response.json({ ok: true })
+    }
+
+    const run = await runScheduledBriefing(notesFolderPath, { calendarUrl: calendarUrl || undefined })
+    if (!run.sent) {
+      return Response.json({ ok: true, skipped: run.skipped })
+    }
+
+    if (!run.resent) {
+      log(`Wrote briefing for ${run.briefing.date} to ${run.briefing.relativePath} in ${notesFolderPath}`)
+    }
+    return Response.json({ ok: true, briefing: run.briefing, resent: run.resent })
+  } catch (error) {
+    log('Error sending morning briefing:', error)
+    return Response.json({ ok: false, error: 'Failed to send the morning briefing' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { rejectPendingChange } from '@/lib/changes'
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath is required' }, { status: 400 })
+    }
+
+    const result = await rejectPendingChange(notesFolderPath, params.id)
+    if (!result.ok) {
+      return Response.json({ ok: false, error: result.error }, { status: result.status })
+    }
+
+    console.log(`[Changes] Rejected ${result.change.tool} change ${params.id} to ${result.change.relativePath}`)
+    return Response.json({ ok: true, change: result.change })
+  } catch (error) {
+    console.error('Error in change reject API:', error)
+    return Response.json({ ok: false, error: 'Failed to reject change' }, { status: 500 })
+  }
+}
@@ -0,0 +1,19 @@
+import { listPendingChanges } from '@/lib/changes'
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    const changes = await listPendingChanges(notesFolderPath)
+
+    return Response.json({ ok: true, changes })
+  } catch (error) {
+    console.error('Error in changes API:', error)
+    return Response.json({ ok: false, error: 'Failed to read pending changes' }, { status: 500 })
+  }
+}
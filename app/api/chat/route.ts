@@ -1,239 +1,277 @@
-import { openai, createOpenAI } from '@ai-sdk/openai'
-import { streamText, tool } from 'ai'
-import { readdir, readFile, stat, writeFile, appendFile } from 'fs/promises'
-import { join } from 'path'
+import { streamText, tool, StreamData, type Message } from 'ai'
+import { readFile } from 'fs/promises'
+import { relative } from 'path'
 import { z } from 'zod'
-import { parseICalFromUrl, formatCalendarSummary } from '@/lib/calendar'
-import { getModelById, DEFAULT_MODEL } from '@/lib/models'
+import { parseICalFromUrl, parseICalFromUrls, formatCalendarSummary } from '@/lib/calendar'
+import { parseApiKeys } from '@/lib/credentials'
+import { getFallbackOptions, resolveFallbackChain, prepareModel, createFallbackModel, getChainModelConfig, type ModelCandidate } from '@/lib/fallback'
+import { DEFAULT_MODEL, getModelCapabilities } from '@/lib/models'
+import { findModel } from '@/lib/modelRegistry'
+import { readNotesFromFolder, listNoteFiles } from '@/lib/notes'
+import { resolveSandboxedPath, resolveWritablePath } from '@/lib/sandbox'
+import { insertUnderHeading, replaceSection, toggleCheckbox, type MarkdownEditResult } from '@/lib/markdown'
+import { createUnifiedDiff } from '@/lib/diff'
+import { commitChange, toChangeSummary, type PendingChange } from '@/lib/changes'
+import { readSpaceSettings, getModelPolicyError, getSpaceCalendarUrls } from '@/lib/spaceSettings'
+import { readMemory, rememberFacts, forgetFacts, formatMemoryForPrompt, MEMORY_CATEGORIES, MEMORY_FILE } from '@/lib/memory'
+import { getNotesIndex, retrieveRelevantChunks, getChunkSources, findMatchingLines, DEFAULT_TOP_N, type NotesIndex, type RankedChunk } from '@/lib/retrieval'
+import { buildPromptWithinBudget } from '@/lib/promptBudget'
+import { readGoals, formatGoalsForPrompt, updateKeyResult, GOALS_FILE } from '@/lib/goals'
+import { readTasks, filterTasks, prepareTaskUpdate, setTaskLineCompleted, setTaskLineDueDate } from '@/lib/tasks'
+import { localDateString } from '@/lib/dates'
+import { getHabitReport, DEFAULT_HABIT_WEEKS, HABITS_FILE } from '@/lib/habits'
+import { readCoachPersona, formatPersonaForPrompt, DEFAULT_COACH_NAME, type CoachPersona } from '@/lib/persona'
+import { parseCommand, getCommandInfo, getCommandPrompt } from '@/lib/commands'
+import { resolveChatSpaces, mergeSpaceSettings, labelWithSpace, retrieveAcrossSpaces, readTasksAcrossSpaces, readRemindersAcrossSpaces, type ChatSpace } from '@/lib/spaces'
 
-// Helper function to dynamically load provider modules
-// These are optional dependencies - if not installed, they will gracefully fail
-async function loadProvider(providerName: string) {
-  try {
-    // Use require() for optional dependencies since webpack's IgnorePlugin
-    // prevents them from being bundled, but they can still be required at runtime
-    const modulePath = `@ai-sdk/${providerName}`
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const module = require(modulePath)
-    
-    switch (providerName) {
-      case 'anthropic':
-        return module.anthropic
-      case 'google':
-        return module.google
-      case 'mistral':
-        return module.mistral
-      default:
-        return null
-    }
-  } catch (e) {
-    console.warn(`@ai-sdk/${providerName} not installed. ${providerName} models will not be available.`)
-    return null
-  }
-}
+// Only the most recently modified files are listed by name in the system prompt
+const MAX_LISTED_FILES = 50
 
-// Cache for loaded providers
-const providerCache: Record<string, any> = {}
+// Upper bound on lines returned by the readNote tool in a single call
+const MAX_READ_LINES = 400
 
-// Create Ollama client instance (will be initialized when needed)
-let ollamaClient: ReturnType<typeof createOpenAI> | null = null
+// Upper bound on tasks returned by the listTasks tool
+const MAX_LISTED_TASKS = 50
 
-// Helper function to get or create Ollama client
-function getOllamaClient() {
-  if (!ollamaClient) {
-    ollamaClient = createOpenAI({
-      baseURL: 'http://localhost:11434/v1',
-      apiKey: 'ollama', // Ollama doesn't validate this, but the SDK requires it
-    })
-  }
-  return ollamaClient
-}
+// Upper bound on reminders listed in the system prompt of multi-space chats
+const MAX_LISTED_REMINDERS = 20
 
-// Helper function to get the model instance based on model config
-async function getModel(modelId: string, openaiApiKey?: string) {
-  const modelConfig = getModelById(modelId) || getModelById(DEFAULT_MODEL)
-  if (!modelConfig) {
-    throw new Error(`Model ${modelId} not found`)
-  }
+// Temperature for models that don't require a fixed one
+const DEFAULT_TEMPERATURE = 0.7
 
-  switch (modelConfig.provider) {
-    case 'openai': {
-      // If a custom API key is provided, create a custom OpenAI instance
-      if (openaiApiKey) {
-        const customOpenAI = createOpenAI({
-          apiKey: openaiApiKey,
-        })
-        return customOpenAI(modelConfig.modelId)
-      }
-      return openai(modelConfig.modelId)
-    }
-    case 'ollama': {
-      // Use Ollama client with OpenAI-compatible API
-      console.log(`[getModel] Creating Ollama model instance for: ${modelConfig.modelId}`)
-      console.log(`[getModel] Ollama baseURL: ${modelConfig.baseURL || 'http://localhost:11434/v1'}`)
-      try {
-        const ollama = getOllamaClient()
-        const model = ollama(modelConfig.modelId)
-        console.log(`[getModel] ✅ Ollama model instance created successfully`)
-        return model
-      } catch (error) {
-        console.error(`[getModel] ❌ Error creating Ollama model instance:`, error)
-        throw error
-      }
-    }
-    case 'anthropic': {
-      // If a custom API key is provided for Anthropic, create a custom instance
-      // Note: This would require importing createAnthropic from @ai-sdk/anthropic
-      // For now, we use the default provider which reads from ANTHROPIC_API_KEY env var
-      if (!providerCache.anthropic) {
-        providerCache.anthropic = await loadProvider('anthropic')
-      }
-      if (!providerCache.anthropic) {
-        throw new Error('Anthropic provider not available. Please install @ai-sdk/anthropic')
-      }
-      return providerCache.anthropic(modelConfig.modelId)
-    }
-    case 'google': {
-      // If a custom API key is provided for Google, create a custom instance
-      // Note: This would require importing createGoogle from @ai-sdk/google
-      // For now, we use the default provider which reads from GOOGLE_API_KEY env var
-      if (!providerCache.google) {
-        providerCache.google = await loadProvider('google')
-      }
-      if (!providerCache.google) {
-        throw new Error('Google provider not available. Please install @ai-sdk/google')
-      }
-      return providerCache.google(modelConfig.modelId)
-    }
-    case 'mistral': {
-      // If a custom API key is provided for Mistral, create a custom instance
-      // Note: This would require importing createMistral from @ai-sdk/mistral
-      // For now, we use the default provider which reads from MISTRAL_API_KEY env var
-      if (!providerCache.mistral) {
-        providerCache.mistral = await loadProvider('mistral')
-      }
-      if (!providerCache.mistral) {
-        throw new Error('Mistral provider not available. Please install @ai-sdk/mistral')
-      }
-      return providerCache.mistral(modelConfig.modelId)
+// Appended to the system prompt of models that can't call tools
+const TEXT_ONLY_PROMPT = ' IMPORTANT: The selected model cannot use tools, so ignore the tool instructions above. Answer from the note excerpts, memory, goals and calendar included in this prompt. If the user asks you to change notes, complete tasks, read a full note, or create calendar links, explain that the selected model cannot do that and suggest switching to a model with tool support.'
+
+// Returns the text of the most recent user message, used as the retrieval query
+function getLatestUserMessage(messages: Array<{ role: string; content: unknown }>): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && typeof messages[i].content === 'string') {
+      return messages[i].content as string
     }
-    default:
-      throw new Error(`Unknown provider: ${modelConfig.provider}`)
   }
+  return ''
+}
+
+// Replaces a prompt command such as /plan in the latest user message with its specialised prompt.
+// Action commands are run by /api/commands instead.
+function expandPromptCommand<T extends { role: string; content: unknown }>(messages: T[]): T[] {
+  const last = messages[messages.length - 1]
+  const command = last?.role === 'user' && typeof last.content === 'string' ? parseCommand(last.content) : null
+  if (!command || getCommandInfo(command.name).kind !== 'prompt') {
+    return messages
+  }
+  console.log(`[Chat API] Expanding /${command.name} into its prompt`)
+  return [...messages.slice(0, -1), { ...last, content: getCommandPrompt(command) }]
 }
 
 // For bare minimum prototype, using OpenAI directly via Vercel AI SDK
 // This will be replaced with Mastra agent integration later
 export async function POST(req: Request) {
   try {
-    const { messages, notesFolderPath, calendarUrl, model: selectedModelId, openaiApiKey } = await req.json()
+    const body = await req.json()
+    const { messages: requestMessages, notesFolderPath, spaces: spaceNames, calendarUrl, model: selectedModelId } = body
+    // Keys entered in the browser, by provider
+    const apiKeys = parseApiKeys(body)
+    const notesRoot = typeof notesFolderPath === 'string' ? notesFolderPath.trim() : ''
+    const messages = Array.isArray(requestMessages) ? expandPromptCommand(requestMessages) : requestMessages
 
-    // Validate API key for non-Ollama models
-    const modelId = selectedModelId || DEFAULT_MODEL
-    const modelConfig = getModelById(modelId) || getModelById(DEFAULT_MODEL)
+    // Multi-space chats name the spaces to ask across; notesFolderPath is then the folder that holds them
+    let chatSpaces: ChatSpace[] = []
+    if (spaceNames !== undefined) {
+      const resolvedSpaces = await resolveChatSpaces(notesRoot, spaceNames)
+      if (!resolvedSpaces.ok) {
+        return new Response(
+          JSON.stringify({ error: resolvedSpaces.error }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        )
+      }
+      chatSpaces = resolvedSpaces.spaces
+    }
+    const multiSpace = chatSpaces.length > 0
 
-    if (modelConfig?.provider !== 'ollama' && !openaiApiKey && !process.env.OPENAI_API_KEY) {
-      const providerName = modelConfig?.provider === 'openai' ? 'OpenAI'
-        : modelConfig?.provider === 'anthropic' ? 'Anthropic'
-        : modelConfig?.provider === 'google' ? 'Google'
-        : modelConfig?.provider === 'mistral' ? 'Mistral'
-        : 'API'
+    // Settings of the space (space.json): default model, calendars, local-only, approval
+    const spaceSettings = multiSpace ? mergeSpaceSettings(chatSpaces) : notesRoot ? await readSpaceSettings(notesRoot) : {}
 
+    const modelId = selectedModelId || spaceSettings.defaultModel || DEFAULT_MODEL
+    const primaryModelConfig = await findModel(modelId)
+    if (!primaryModelConfig) {
       return new Response(
-        JSON.stringify({
-          error: `${providerName} API key is missing. Please configure your API key in the Configuration section (⚙️) at the top of the page, or use a local Ollama model which doesn't require an API key.`
-        }),
+        JSON.stringify({ error: `Unknown model "${modelId}"` }),
         {
-          status: 401,
+          status: 400,
           headers: { 'Content-Type': 'application/json' }
         }
       )
     }
 
-    // Get the model instance based on selection (defaults to DEFAULT_MODEL if not provided)
-    let modelInstance
-    try {
-      modelInstance = await getModel(modelId, openaiApiKey)
-    } catch (error) {
-      console.error(`Error loading model ${modelId}:`, error)
-
-      // Check if it's an API key error
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      if (errorMessage.includes('API key') || errorMessage.includes('Incorrect API key') || errorMessage.includes('401')) {
-        const providerName = modelConfig?.provider === 'openai' ? 'OpenAI'
-          : modelConfig?.provider === 'anthropic' ? 'Anthropic'
-          : modelConfig?.provider === 'google' ? 'Google'
-          : modelConfig?.provider === 'mistral' ? 'Mistral'
-          : 'API'
-
-        return new Response(
-          JSON.stringify({
-            error: `Invalid ${providerName} API key. Please check your API key in the Configuration section (⚙️) at the top of the page and make sure it's correct.`
-          }),
-          {
-            status: 401,
-            headers: { 'Content-Type': 'application/json' }
-          }
-        )
-      }
+    // Local-only spaces never send their notes to a cloud model
+    const policyError = getModelPolicyError(spaceSettings, primaryModelConfig)
+    if (policyError) {
+      return new Response(
+        JSON.stringify({ error: policyError }),
+        {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
 
-      // Fallback to default OpenAI model
-      if (openaiApiKey) {
-        const customOpenAI = createOpenAI({
-          apiKey: openaiApiKey,
-        })
-        modelInstance = customOpenAI('gpt-4o-mini')
+    // The selected model, then the fallback chain of the space (space.json) or of the browser
+    const fallbackChain = await resolveFallbackChain(primaryModelConfig, getFallbackOptions(spaceSettings, body.fallback), spaceSettings)
+    const prepared = await Promise.all([primaryModelConfig, ...fallbackChain].map(config => prepareModel(config, apiKeys)))
+    const candidates: ModelCandidate[] = []
+    for (const result of prepared) {
+      if (result.ok) {
+        candidates.push(result)
       } else {
-        modelInstance = openai('gpt-4o-mini')
+        console.warn(`[Chat API] Can't use ${result.modelConfig.name}: ${result.error}`)
       }
-      console.warn(`Falling back to default model: gpt-4o-mini`)
     }
 
-    let notesContent = ''
+    // Without a model to fall back to, the error of the selected model is returned
+    const primary = prepared[0]
+    if (candidates.length === 0 && !primary.ok) {
+      return new Response(
+        JSON.stringify({ error: primary.error }),
+        {
+          status: primary.status,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      )
+    }
+    if (!primary.ok) {
+      console.warn(`[Chat API] Falling back to ${candidates[0].modelConfig.name}`)
+    }
+
+    // Prompt and request options must suit every model that may answer: the
+    // smallest context window, and tools only if all of them support tools
+    const modelConfig = getChainModelConfig(candidates.map(candidate => candidate.modelConfig))
+
+    let relevantChunks: RankedChunk[] = []
+    let notesGuide = ''
+    let filesListContent = ''
+    let notesIndex: NotesIndex | null = null
     let fileMetadata: Array<{ name: string; path: string; mtime: Date }> = []
 
-    // If folder path is provided, read all notes from it
-    if (notesFolderPath && typeof notesFolderPath === 'string' && notesFolderPath.trim()) {
+    // Retrieve the notes most relevant to the latest message, from every space of a multi-space chat
+    if (multiSpace) {
       try {
-        const { notes, metadata } = await readNotesFromFolder(notesFolderPath.trim())
-        fileMetadata = metadata
+        relevantChunks = await retrieveAcrossSpaces(chatSpaces, getLatestUserMessage(messages), {
+          topN: DEFAULT_TOP_N,
+          embeddingModel: process.env.OPENCOACH_EMBEDDING_MODEL,
+        })
+        fileMetadata = (await Promise.all(chatSpaces.map(async space => (await listNoteFiles(space.path))
+          .map(note => ({ name: labelWithSpace(space.name, note.relativePath), path: note.path, mtime: note.mtime })))))
+          .flat()
+        console.log(`[Chat API] Retrieved ${relevantChunks.length} note chunk(s) from ${getChunkSources(relevantChunks).length} file(s) across ${chatSpaces.length} space(s)`)
+      } catch (error) {
+        console.error('Error reading spaces:', error)
+        // Continue without notes if the spaces can't be read
+      }
+    } else if (notesRoot) {
+      // If folder path is provided, retrieve the notes most relevant to the latest message
+      try {
+        const notes = await readNotesFromFolder(notesRoot)
+        fileMetadata = notes.map(note => ({ name: note.relativePath, path: note.path, mtime: note.mtime }))
+
         if (notes.length > 0) {
-          notesContent = '\n\n## Notes from your folder:\n\n' + notes.join('\n\n---\n\n')
-
-          // Add file awareness section
-          const filesList = metadata
-            .sort((a, b) => b.mtime.getTime() - a.mtime.getTime()) // Sort by most recent first
-            .map((file, index) => {
-              const dateStr = file.mtime.toISOString().split('T')[0]
-              const isToday = dateStr === new Date().toISOString().split('T')[0]
-              return `${index + 1}. "${file.name}" (path: ${file.path}, modified: ${dateStr}${isToday ? ' - TODAY' : ''})`
-            })
-            .join('\n')
+          const index = getNotesIndex(notesRoot, notes)
+          notesIndex = index
+          relevantChunks = await retrieveRelevantChunks(index, getLatestUserMessage(messages), {
+            topN: DEFAULT_TOP_N,
+            embeddingModel: process.env.OPENCOACH_EMBEDDING_MODEL,
+          })
+          console.log(`[Chat API] Retrieved ${relevantChunks.length} note chunk(s) from ${getChunkSources(relevantChunks).length} file(s) out of ${index.chunks.length} chunk(s)`)
+        }
+      } catch (error) {
+        console.error('Error reading notes folder:', error)
+        // Continue without notes if folder can't be read
+      }
+    }
+
+    if (fileMetadata.length > 0) {
+      // Add file awareness section
+      const filesList = fileMetadata
+        .sort((a, b) => b.mtime.getTime() - a.mtime.getTime()) // Sort by most recent first
+        .slice(0, MAX_LISTED_FILES)
+        .map((file, index) => {
+          const dateStr = file.mtime.toISOString().split('T')[0]
+          const isToday = dateStr === new Date().toISOString().split('T')[0]
+          return `${index + 1}. "${file.name}" (path: ${file.path}, modified: ${dateStr}${isToday ? ' - TODAY' : ''})`
+        })
+        .join('\n')
 
-          notesContent += `\n\n## Available Files (sorted by most recent first):\n${filesList}\n\nIMPORTANT: When the user asks to add something to their TODO list for today, you should:
+      notesGuide = `\n\nThe excerpts above are only the parts of the notes that best match the latest message. Use the searchNotes tool to find other information in the notes, and the readNote tool to read a file (or a line range of it) in full before relying on details that are not in the excerpts.`
+
+      filesListContent = `\n\n## Available Files (sorted by most recent first):\n${filesList}\n\nIMPORTANT: When the user asks to add something to their TODO list for today, you should:
 1. Find the most relevant note - typically the most recent file (file #1), or a file that was modified today (marked with "TODAY")
-2. Use the writeToFile tool to append a TODO item to that file
-3. Format TODO items clearly, for example:
+2. Use the editNote tool with operation='insert_under_heading' and heading='TODO' to add the item under that note's TODO heading (the heading is created if it is missing)
+3. Format TODO items as checkboxes, for example:
    - [ ] Exercise and go to the gym
-   or
-   - TODO: Exercise and go to the gym
+4. When the user gives a due date, priority or category, add it inline as due:YYYY-MM-DD, !high/!medium/!low or #tag, for example:
+   - [ ] Send the tax return due:2026-11-01 !high #finance
+
+To see what is left to do, use the listTasks tool. To mark a task as done or move its due date, use the completeTask or rescheduleTask tool with the filePath, line and text returned by listTasks. Only fall back to the writeToFile tool with mode='append' for notes that have no markdown structure. The filePath should be the full path from the Available Files list above.`
+    }
 
-Always use the writeToFile tool with mode='append' when adding TODO items. The filePath should be the full path from the Available Files list above.`
+    // Long-term memory of the space, kept across conversations
+    let memoryContent = ''
+    if (multiSpace) {
+      try {
+        const memories = await Promise.all(chatSpaces.map(async space => `### [${space.name}]\n\n` + (formatMemoryForPrompt(await readMemory(space.path)) || 'Nothing yet.')))
+        memoryContent = `\n\n## What you remember about the user (from the ${MEMORY_FILE} of each space):\n\n` + memories.join('\n\n')
+        memoryContent += '\n\nUse the remember tool when the user shares a lasting goal, preference, commitment or obstacle, and the forget tool when they ask you to forget something or a remembered fact is no longer true. Both need the space the fact belongs to.'
+      } catch (error) {
+        console.error('Error reading memory:', error)
+      }
+    } else if (notesRoot) {
+      try {
+        const memory = formatMemoryForPrompt(await readMemory(notesRoot))
+        memoryContent = `\n\n## What you remember about the user (from ${MEMORY_FILE}):\n\n` + (memory || 'Nothing yet.')
+        memoryContent += '\n\nUse the remember tool when the user shares a lasting goal, preference, commitment or obstacle, and the forget tool when they ask you to forget something or a remembered fact is no longer true.'
+      } catch (error) {
+        console.error('Error reading memory:', error)
+      }
+    }
+
+    // Where each goal in GOALS.md stands
+    let goalsContent = ''
+    if (multiSpace) {
+      try {
+        const goalsBySpace = (await Promise.all(chatSpaces.map(async space => ({ space, goals: await readGoals(space.path) }))))
+          .filter(({ goals }) => goals.length > 0)
+        if (goalsBySpace.length > 0) {
+          goalsContent = `\n\n## The user's goals (from the ${GOALS_FILE} of each space, with progress):\n\n` + goalsBySpace
+            .map(({ space, goals }) => `### [${space.name}]\n\n` + formatGoalsForPrompt(goals))
+            .join('\n\n')
+          goalsContent += '\n\nRefer to these goals when coaching. When the user reports progress on a key result, use the updateGoalProgress tool with the space of the goal.'
         }
       } catch (error) {
-        console.error('Error reading notes folder:', error)
-        // Continue without notes if folder can't be read
+        console.error('Error reading goals:', error)
+      }
+    } else if (notesRoot) {
+      try {
+        const goals = await readGoals(notesRoot)
+        if (goals.length > 0) {
+          goalsContent = `\n\n## The user's goals (from ${GOALS_FILE}, with progress):\n\n` + formatGoalsForPrompt(goals)
+          goalsContent += '\n\nRefer to these goals when coaching. When the user reports progress on a key result, use the updateGoalProgress tool.'
+        }
+      } catch (error) {
+        console.error('Error reading goals:', error)
       }
     }
 
-    // If calendar URL is provided, fetch and include calendar information
+    // The calendars of the space (space.json), or else the calendar URL configured in the browser
+    const calendarUrls = getSpaceCalendarUrls(spaceSettings, calendarUrl)
     let calendarContent = ''
-    if (calendarUrl && typeof calendarUrl === 'string' && calendarUrl.trim()) {
+    if (calendarUrls.length > 0) {
       try {
-        const httpUrl = calendarUrl.trim().replace(/^webcal:\/\//, 'https://')
-        console.log('[Chat API] Fetching calendar from URL:', httpUrl)
+        console.log('[Chat API] Fetching calendar from URL(s):', calendarUrls.join(', '))
 
-        const calendarInfo = await parseICalFromUrl(httpUrl)
+        const calendarInfo = await parseICalFromUrls(calendarUrls)
         const summary = formatCalendarSummary(calendarInfo, 10)
 
         calendarContent = '\n\n## Your Calendar:\n\n' + summary
@@ -249,28 +287,87 @@ Always use the writeToFile tool with mode='append' when adding TODO items. The f
       }
     }
 
+    // Upcoming reminders of every space in a multi-space chat
+    let remindersContent = ''
+    if (multiSpace) {
+      try {
+        const reminders = (await readRemindersAcrossSpaces(chatSpaces)).slice(0, MAX_LISTED_REMINDERS)
+        if (reminders.length > 0) {
+          remindersContent = '\n\n## Upcoming reminders:\n\n' + reminders
+            .map(reminder => `- ${labelWithSpace(reminder.space, `${new Date(reminder.dateTime).toLocaleString()}: ${reminder.reminderText}`)}`)
+            .join('\n')
+        }
+      } catch (error) {
+        console.error('Error reading reminders:', error)
+      }
+    }
+
+    // Persona, tone, method and hard rules of the coach in this space (COACH.md or CONTEXT.md frontmatter).
+    // A multi-space chat uses the coach of its first space.
+    let persona: CoachPersona | null = null
+    const personaRoot = multiSpace ? chatSpaces[0].path : notesRoot
+    if (personaRoot) {
+      try {
+        persona = await readCoachPersona(personaRoot)
+      } catch (error) {
+        console.error('Error reading coach persona:', error)
+      }
+    }
+
     // Build calendar instruction based on whether user has configured a calendar URL
     let calendarInstruction = ''
-    if (calendarUrl && typeof calendarUrl === 'string' && calendarUrl.trim()) {
-      const userCalendarUrl = calendarUrl.trim().replace(/^webcal:\/\//, 'https://')
-      calendarInstruction = ` You have access to the user's calendar via the getCalendarInfo tool. CRITICAL: When using the getCalendarInfo tool, you MUST ONLY use this exact calendar URL: "${userCalendarUrl}". DO NOT make up example URLs, use placeholder URLs, or use any other calendar URL. If you need to fetch calendar information, use ONLY the URL provided above.`
+    if (calendarUrls.length === 1) {
+      calendarInstruction = ` You have access to the user's calendar via the getCalendarInfo tool. CRITICAL: When using the getCalendarInfo tool, you MUST ONLY use this exact calendar URL: "${calendarUrls[0]}". DO NOT make up example URLs, use placeholder URLs, or use any other calendar URL. If you need to fetch calendar information, use ONLY the URL provided above.`
+    } else if (calendarUrls.length > 1) {
+      calendarInstruction = ` You have access to the user's calendars via the getCalendarInfo tool, one calendar per call. CRITICAL: When using the getCalendarInfo tool, you MUST ONLY use these exact calendar URLs: ${calendarUrls.map(url => `"${url}"`).join(', ')}. DO NOT make up example URLs, use placeholder URLs, or use any other calendar URL.`
     } else {
       calendarInstruction = ' The user has not configured a calendar URL yet. You do NOT have access to the getCalendarInfo tool until they provide a calendar URL in the settings.'
     }
 
-    const systemPrompt = 'You are OpenCoach, an AI coaching assistant. Help the user with their goals and priorities.' + calendarInstruction + ' When creating calendar events, always provide both the Google Calendar link and the .ics file download link so users can add the event to their preferred calendar app. CRITICAL: When using the createGoogleCalendarLink tool, the tool returns a "markdownResponse" field with pre-formatted markdown links. You MUST copy and paste the "markdownResponse" value exactly as-is into your response. Do NOT create your own links, modify the URLs, or use localhost URLs. Simply use the markdownResponse field directly.' + notesContent + calendarContent
-
-    // Determine temperature based on model (some models like o1/o3 have restrictions)
-    // modelConfig was already declared earlier in the function
-    const isO1Model = modelConfig?.modelId.startsWith('o1') || modelConfig?.modelId.startsWith('o3')
-    const temperature = isO1Model ? 1 : 0.7 // O1/O3 models only support temperature: 1
-    
-    // For Ollama models, add extra instruction to avoid unnecessary tool calls
-    const ollamaExtraPrompt = modelConfig?.provider === 'ollama' 
-      ? ' IMPORTANT: Only use tools when explicitly needed. For simple greetings and conversations, respond directly without using any tools. Only call writeToFile when the user specifically asks to write or add something to their notes.' 
+    // Multi-space chats label their context by space, and writes must name the space they change
+    const spaceList = chatSpaces.map(space => `"${space.name}"`).join(', ')
+    const spacesInstruction = multiSpace
+      ? ` You are answering across these spaces of the user's notes: ${spaceList}. Notes, files, tasks, goals, memory and reminders are labelled with their space in square brackets, for example "[${chatSpaces[0].name}]"; say which space something comes from when you refer to it. Tools that change notes or memory need the space to write to: always pass it explicitly, and ask the user which space to use when it is not clear.`
       : ''
+
+    const instructions = 'You are ' + (persona?.name || DEFAULT_COACH_NAME) + ', an AI coaching assistant. Help the user with their goals and priorities.' + spacesInstruction + calendarInstruction + ' When creating calendar events, always provide both the Google Calendar link and the .ics file download link so users can add the event to their preferred calendar app. CRITICAL: When using the createGoogleCalendarLink tool, the tool returns a "markdownResponse" field with pre-formatted markdown links. You MUST copy and paste the "markdownResponse" value exactly as-is into your response. Do NOT create your own links, modify the URLs, or use localhost URLs. Simply use the markdownResponse field directly.' + (persona ? formatPersonaForPrompt(persona) : '')
+
+    // Request options come from what the model supports (ModelConfig.capabilities)
+    const capabilities = getModelCapabilities(modelConfig)
+    const temperature = capabilities.temperature ?? DEFAULT_TEMPERATURE
+
+    // Models without tools answer in text-only mode; local models get an extra
+    // instruction to avoid unnecessary tool calls
+    const toolsPrompt = !capabilities.tools
+      ? TEXT_ONLY_PROMPT
+      : modelConfig?.isLocal
+        ? ' IMPORTANT: Only use tools when explicitly needed. For simple greetings and conversations, respond directly without using any tools. Only call writeToFile, editNote, completeTask or rescheduleTask when the user specifically asks to write or add something to their notes.'
+        : ''
     
-    const finalSystemPrompt = systemPrompt + ollamaExtraPrompt
+    // Fit notes, calendar and history into the model's context window
+    const prompt = buildPromptWithinBudget<Message>({
+      modelConfig,
+      instructions,
+      memory: memoryContent,
+      goals: goalsContent,
+      notes: relevantChunks,
+      notesGuide,
+      fileList: filesListContent,
+      calendar: calendarContent + remindersContent,
+      suffix: toolsPrompt,
+      messages,
+    })
+    const finalSystemPrompt = prompt.system
+    const notesUsed = getChunkSources(prompt.notes)
+
+    const { budget } = prompt
+    console.log(`[Chat API] Prompt budget: ${budget.total}/${budget.inputBudget} tokens (instructions ${budget.instructions}, memory ${budget.memory}, goals ${budget.goals}, notes ${budget.notes}, calendar ${budget.calendar}, history ${budget.history}, tools ${budget.tools})`)
+    if (budget.droppedMessages > 0 || budget.droppedNotes > 0 || budget.droppedFileList) {
+      console.warn(`[Chat API] Trimmed prompt to fit ${modelConfig?.name || modelId}: dropped ${budget.droppedMessages} message(s), ${budget.droppedNotes} note excerpt(s)${budget.droppedFileList ? ' and the file list' : ''}`)
+    }
+    if (budget.overBudget) {
+      console.warn(`[Chat API] Prompt still exceeds the context window of ${modelConfig?.name || modelId}, the model may truncate it`)
+    }
 
     // Log which model is being used
     console.log(`[Chat API] Using model: ${modelConfig?.name || modelId} (provider: ${modelConfig?.provider || 'unknown'}, modelId: ${modelConfig?.modelId || modelId})`)
@@ -282,14 +379,76 @@ Always use the writeToFile tool with mode='append' when adding TODO items. The f
       console.log(`[Chat API] Make sure model is installed: ollama list`)
     }
 
+    // The space a write tool changes: the notes folder or space of the chat, or in a
+    // multi-space chat the space the tool names. Null when that space is missing or
+    // unknown, or when a single-space chat names one.
+    const getTargetSpace = (space: string | undefined): ChatSpace | null => multiSpace
+      ? chatSpaces.find(chatSpace => chatSpace.name === space) || null
+      : space ? null : { name: '', path: notesRoot, settings: spaceSettings }
+    const missingSpaceError = multiSpace
+      ? `Pass the space to write to, one of: ${spaceList}. Ask the user which space to use if it is not clear.`
+      : 'This chat has a single space, so leave out the space parameter.'
+
+    // Notes can be read from the notes folder, or from any space of a multi-space chat
+    const resolveReadablePath = async (filePath: string) => {
+      if (!multiSpace) {
+        return resolveSandboxedPath(notesRoot, filePath)
+      }
+      const results = await Promise.all(chatSpaces.map(space => resolveSandboxedPath(space.path, filePath)))
+      return results.find(result => result.ok && result.exists) || results.find(result => result.ok) || results[0]
+    }
+
+    // In multi-space chats, write tools must name the space they change, one of the
+    // spaces of the chat. Single-space chats must leave it out.
+    const targetSpaceShape = {
+      space: multiSpace
+        ? z.enum(chatSpaces.map(space => space.name) as [string, ...string[]]).describe('The space to write to. Never guess it.')
+        : z.string().optional().describe('Leave this out: the chat has a single space.'),
+    }
+
+    // Tells the model that a change waits for approval
+    const describePendingChange = (change: PendingChange) => {
+      console.log(`[Chat API] Proposed ${change.tool} change ${change.id} to ${change.relativePath}, waiting for approval`)
+      return {
+        pendingChange: toChangeSummary(change),
+        message: `The change to ${change.filePath} was proposed but NOT applied. This space requires approval: tell the user to review the change and click Approve or Reject.`,
+      }
+    }
+
+    // Writes a note change, or stores it as a pending change when the space requires approval
+    const commitNoteChange = async (target: ChatSpace, tool: string, action: string, filePath: string, previousContent: string | null, newContent: string) => {
+      const result = await commitChange(target.path, target.settings.requireApproval, { tool, action, filePath, previousContent, newContent })
+      return 'pendingChange' in result ? describePendingChange(result.pendingChange) : result
+    }
+
+    // Tell the client which note files were used to answer
+    const data = new StreamData()
+    data.appendMessageAnnotation({ type: 'notes-used', files: notesUsed })
+
+    // Tell the client which model answered, again whenever a later step falls back
+    let answeredBy: string | undefined
+    const modelInstance = createFallbackModel(candidates, answering => {
+      if (answering.id === answeredBy) return
+      answeredBy = answering.id
+      data.appendMessageAnnotation({ type: 'model-used', modelId: answering.id, name: answering.name, fallback: answering.id !== primaryModelConfig.id })
+    })
+
     const result = await streamText({
       model: modelInstance,
-      messages,
+      // Transient errors are retried per model by the fallback chain
+      maxRetries: 0,
+      messages: prompt.messages,
       system: finalSystemPrompt,
       temperature,
-      maxSteps: 5, // Allow multiple tool calls and responses
-      // For Ollama models, be more conservative with tool usage
-      ...(modelConfig?.provider === 'ollama' && { toolChoice: 'auto' }),
+      // Some models reject max_tokens, e.g. o1/o3 (they expect max_completion_tokens)
+      ...(capabilities.outputLimit && { maxTokens: budget.maxOutputTokens }),
+      // Allow multiple tool calls and responses, a single answer in text-only mode
+      maxSteps: capabilities.tools ? 5 : 1,
+      // No tool definitions are sent to models without tool support
+      ...(!capabilities.tools && { experimental_activeTools: [] }),
+      onFinish: () => {
+        data.close()
+      },
       tools: {
         getCalendarInfo: tool({
           description: 'Fetch and parse calendar information from the user\'s configured iCal calendar URL. Use this to get information about upcoming events, meetings, and schedule. IMPORTANT: You must ONLY use the exact calendar URL that was provided in the system prompt. Do NOT use example URLs, placeholder URLs, or make up calendar URLs.',
@@ -346,27 +505,418 @@ Always use the writeToFile tool with mode='append' when adding TODO items. The f
             }
           },
         }),
+        searchNotes: tool({
+          description: 'Search the user\'s notes folder for a query. Returns matching files with snippets and line numbers. Use this when the answer may be in notes that were not included in the system prompt excerpts.',
+          parameters: z.object({
+            query: z.string().describe('Keywords or a question to search the notes for'),
+            maxResults: z.number().optional().default(5).describe('Maximum number of matching sections to return (default: 5)')
+          }),
+          execute: async ({ query, maxResults }) => {
+            if (!notesIndex && !multiSpace) {
+              return { success: false, error: 'No notes folder is configured, so there are no notes to search.' }
+            }
+
+            try {
+              const retrievalOptions = { topN: maxResults, embeddingModel: process.env.OPENCOACH_EMBEDDING_MODEL }
+              const chunks = notesIndex
+                ? await retrieveRelevantChunks(notesIndex, query, retrievalOptions)
+                : await retrieveAcrossSpaces(chatSpaces, query, retrievalOptions)
+
+              return {
+                success: true,
+                results: chunks.map(chunk => ({
+                  filePath: chunk.filePath,
+                  file: chunk.fileName,
+                  heading: chunk.heading,
+                  startLine: chunk.startLine,
+                  endLine: chunk.endLine,
+                  matches: findMatchingLines(chunk, query),
+                })),
+              }
+            } catch (error) {
+              return { success: false, error: `Failed to search notes: ${error instanceof Error ? error.message : String(error)}` }
+            }
+          },
+        }),
+        readNote: tool({
+          description: 'Read a note file from the user\'s notes folder, optionally only a range of lines. Use the file paths and line numbers returned by searchNotes or listed in the system prompt.',
+          parameters: z.object({
+            filePath: z.string().describe('The full path to the note, or a path relative to the notes folder'),
+            startLine: z.number().optional().describe('First line to read (1-based, inclusive). Defaults to the start of the file.'),
+            endLine: z.number().optional().describe('Last line to read (1-based, inclusive). Defaults to the end of the file.')
+          }),
+          execute: async ({ filePath, startLine, endLine }) => {
+            const resolved = await resolveReadablePath(filePath)
+            if (!resolved.ok) {
+              return { success: false, code: resolved.code, error: resolved.error }
+            }
+            const resolvedPath = resolved.path
+
+            try {
+              const lines = (await readFile(resolvedPath, 'utf-8')).split('\n')
+              const from = Math.max(1, startLine ?? 1)
+              const to = Math.min(lines.length, endLine ?? lines.length, from + MAX_READ_LINES - 1)
+
+              return {
+                success: true,
+                filePath: resolvedPath,
+                startLine: from,
+                endLine: to,
+                totalLines: lines.length,
+                content: lines.slice(from - 1, to).join('\n'),
+                ...(to < Math.min(lines.length, endLine ?? lines.length) && {
+                  note: `Output was limited to ${MAX_READ_LINES} lines. Call readNote again with startLine=${to + 1} to continue.`,
+                }),
+              }
+            } catch (error) {
+              return { success: false, error: `Failed to read note: ${error instanceof Error ? error.message : String(error)}` }
+            }
+          },
+        }),
+        editNote: tool({
+          description: 'Edit a markdown note by its structure instead of appending to the end of the file. Operations: "insert_under_heading" adds content under a heading, "toggle_checkbox" checks or unchecks a "- [ ]" item found by its text, "replace_section" replaces everything under a heading of a new note, or of an existing one if the space allows overwriting. Missing headings are created at the end of the note. Returns a unified diff of the change; summarize it for the user.',
+          parameters: z.object({
+            filePath: z.string().describe('The full path to the note, or a path relative to the notes folder'),
+            operation: z.enum(['insert_under_heading', 'toggle_checkbox', 'replace_section']).describe('The edit to perform'),
+            heading: z.string().optional().describe('Heading text for insert_under_heading and replace_section, e.g. "TODO"'),
+            content: z.string().optional().describe('Markdown to insert, or the new section content for replace_section'),
+            itemText: z.string().optional().describe('Text of the checkbox item to toggle (case-insensitive, partial match)'),
+            checked: z.boolean().optional().describe('For toggle_checkbox: true to check, false to uncheck. Flips the item when omitted.'),
+            position: z.enum(['start', 'end']).optional().default('end').describe('For insert_under_heading: insert at the start or end of the section'),
+            headingLevel: z.number().min(1).max(6).optional().default(2).describe('Level of the heading if it has to be created (default: 2)'),
+            ...targetSpaceShape,
+          }),
+          execute: async ({ filePath, operation, heading, content, itemText, checked, position, headingLevel, space }) => {
+            const target = getTargetSpace(space)
+            if (!target) {
+              return { success: false, error: missingSpaceError }
+            }
+            // Replacing a section discards its content, so it needs the same permission as overwriting a file
+            const resolved = await resolveWritablePath(target.path, filePath, operation === 'replace_section' ? 'write' : 'append')
+            if (!resolved.ok) {
+              const error = resolved.code === 'OVERWRITE_NOT_ALLOWED'
+                ? `Replacing sections of existing notes is not allowed in this space. Use operation "insert_under_heading" to add content instead.`
+                : resolved.error
+              return { success: false, code: resolved.code, error }
+            }
+            const targetPath = resolved.path
+
+            try {
+              if (!resolved.exists && operation === 'toggle_checkbox') {
+                return { success: false, error: `"${filePath}" does not exist.` }
+              }
+              const original = resolved.exists ? await readFile(targetPath, 'utf-8') : ''
+
+              let result: MarkdownEditResult
+              if (operation === 'toggle_checkbox') {
+                if (!itemText) return { success: false, error: 'itemText is required for toggle_checkbox' }
+                result = toggleCheckbox(original, itemText, checked)
+              } else {
+                if (!heading || content === undefined) return { success: false, error: `heading and content are required for ${operation}` }
+                result = operation === 'insert_under_heading'
+                  ? insertUnderHeading(original, heading, content, { position, headingLevel })
+                  : replaceSection(original, heading, content, { headingLevel })
+              }
+
+              if (!result.ok) {
+                return { success: false, error: result.error, candidates: result.candidates }
+              }
+              if (result.content === original) {
+                return { success: true, filePath: targetPath, message: 'The note already has this content, nothing was changed.', diff: '' }
+              }
+
+              return {
+                success: true,
+                filePath: targetPath,
+                message: `${result.message} in ${targetPath}`,
+                diff: createUnifiedDiff(original, result.content, relative(target.path, targetPath)),
+                ...(await commitNoteChange(target, 'editNote', operation, targetPath, resolved.exists ? original : null, result.content)),
+              }
+            } catch (error) {
+              return { success: false, error: `Failed to edit note: ${error instanceof Error ? error.message : String(error)}` }
+            }
+          },
+        }),
         writeToFile: tool({
-          description: 'Write or append content to a note file. Use this when the user asks to add something to their notes, TODO list, or any file. IMPORTANT: After using this tool, you MUST confirm to the user what was done and which file was modified.',
+          description: 'Write or append content to a note file inside the user\'s notes folder. Use this when the user asks to add something to their notes, TODO list, or any file. Files outside the notes folder cannot be written, and existing files can only be overwritten if the space allows it. If the tool returns an error with a "code", explain the problem to the user instead of retrying with a different path. IMPORTANT: After using this tool, you MUST confirm to the user what was done and which file was modified.',
           parameters: z.object({
-            filePath: z.string().describe('The full path to the file to write to'),
+            filePath: z.string().describe('The full path to the note file to write to, or a path relative to the notes folder'),
             content: z.string().describe('The content to append to the file'),
-            mode: z.enum(['append', 'write']).default('append').describe('Whether to append to the file or overwrite it. Use append for adding TODO items.')
+            mode: z.enum(['append', 'write']).default('append').describe('Whether to append to the file or overwrite it. Use append for adding TODO items.'),
+            ...targetSpaceShape,
           }),
-          execute: async ({ filePath, content, mode }) => {
+          execute: async ({ filePath, content, mode, space }) => {
+            const target = getTargetSpace(space)
+            if (!target) {
+              return { success: false, error: missingSpaceError }
+            }
+            const resolved = await resolveWritablePath(target.path, filePath, mode)
+            if (!resolved.ok) {
+              console.warn(`[Chat API] Rejected writeToFile to "${filePath}": ${resolved.code}`)
+              return { success: false, code: resolved.code, error: resolved.error }
+            }
+            const targetPath = resolved.path
+
             try {
+              const existing = resolved.exists ? await readFile(targetPath, 'utf-8') : null
               if (mode === 'append') {
-                await appendFile(filePath, '\n' + content, 'utf-8')
-                return { success: true, message: `Successfully appended content to ${filePath}` }
+                const newContent = existing === null ? content : existing + '\n' + content
+                return {
+                  success: true,
+                  message: `Successfully appended content to ${targetPath}`,
+                  ...(await commitNoteChange(target, 'writeToFile', mode, targetPath, existing, newContent)),
+                }
               } else {
-                await writeFile(filePath, content, 'utf-8')
-                return { success: true, message: `Successfully wrote content to ${filePath}` }
+                return {
+                  success: true,
+                  message: `Successfully wrote content to ${targetPath}`,
+                  ...(await commitNoteChange(target, 'writeToFile', mode, targetPath, existing, content)),
+                }
               }
             } catch (error) {
               return { success: false, error: `Failed to write to file: ${error}` }
             }
           },
         }),
+        listTasks: tool({
+          description: `List tasks (markdown checkboxes and TODO: lines) from all notes in the space, with their due date, priority and tags. Use it to answer questions like "what's left for today?" and to find the filePath and line of a task before completing or rescheduling it.${multiSpace ? ' In multi-space chats, each task also has its space.' : ''} Today is ${localDateString()}.`,
+          parameters: z.object({
+            status: z.enum(['open', 'done', 'all']).optional().default('open').describe('Which tasks to list (default: open)'),
+            due: z.string().optional().describe('Filter by due date: "today", "overdue", "week" (next 7 days), "none", or a YYYY-MM-DD date'),
+            tag: z.string().optional().describe('Only tasks with this #tag'),
+            file: z.string().optional().describe('Only tasks in files whose path contains this text'),
+          }),
+          execute: async ({ status, due, tag, file }) => {
+            if (!notesRoot) {
+              return { success: false, error: 'No notes folder is configured, so there are no tasks.' }
+            }
+            try {
+              const tasks = filterTasks(multiSpace ? await readTasksAcrossSpaces(chatSpaces) : await readTasks(notesRoot), { status, due, tag, file })
+              return {
+                success: true,
+                total: tasks.length,
+                tasks: tasks.slice(0, MAX_LISTED_TASKS).map(task => ({
+                  ...('space' in task && { space: task.space }),
+                  filePath: task.relativePath,
+                  line: task.line,
+                  text: task.text,
+                  completed: task.completed,
+                  due: task.due,
+                  priority: task.priority,
+                  tags: task.tags,
+                })),
+              }
+            } catch (error) {
+              return { success: false, error: `Failed to read tasks: ${error instanceof Error ? error.message : String(error)}` }
+            }
+          },
+        }),
+        completeTask: tool({
+          description: 'Mark a task as done (or open again) in its source note. Use the filePath, line and text returned by listTasks. Returns a unified diff of the change.',
+          parameters: z.object({
+            filePath: z.string().describe('The filePath of the task, as returned by listTasks'),
+            line: z.number().int().min(1).describe('The line of the task, as returned by listTasks'),
+            text: z.string().describe('The text of the task, as returned by listTasks. Used to find the task if the line moved.'),
+            completed: z.boolean().optional().default(true).describe('false to reopen a completed task'),
+            ...targetSpaceShape,
+          }),
+          execute: async ({ filePath, line, text, completed, space }) => {
+            const target = getTargetSpace(space)
+            if (!target) {
+              return { success: false, error: missingSpaceError }
+            }
+            try {
+              const update = await prepareTaskUpdate(target.path, { filePath, line, text }, taskLine => setTaskLineCompleted(taskLine, completed))
+              if (!update.ok) {
+                return { success: false, error: update.error }
+              }
+              if (update.newContent === update.previousContent) {
+                return { success: true, message: `"${update.task.text}" is already ${completed ? 'done' : 'open'}.`, diff: '' }
+              }
+
+              return {
+                success: true,
+                message: `Marked "${update.task.text}" as ${completed ? 'done' : 'open'} in ${update.task.relativePath}`,
+                diff: createUnifiedDiff(update.previousContent, update.newContent, update.task.relativePath),
+                ...(await commitNoteChange(target, 'completeTask', completed ? 'complete' : 'reopen', update.filePath, update.previousContent, update.newContent)),
+              }
+            } catch (error) {
+              return { success: false, error: `Failed to update task: ${error instanceof Error ? error.message : String(error)}` }
+            }
+          },
+        }),
+        rescheduleTask: tool({
+          description: `Set, change or remove the due date of a task in its source note (written as due:YYYY-MM-DD). Use the filePath, line and text returned by listTasks. Today is ${localDateString()}.`,
+          parameters: z.object({
+            filePath: z.string().describe('The filePath of the task, as returned by listTasks'),
+            line: z.number().int().min(1).describe('The line of the task, as returned by listTasks'),
+            text: z.string().describe('The text of the task, as returned by listTasks. Used to find the task if the line moved.'),
+            due: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().describe('The new due date as YYYY-MM-DD, or null to remove it'),
+            ...targetSpaceShape,
+          }),
+          execute: async ({ filePath, line, text, due, space }) => {
+            const target = getTargetSpace(space)
+            if (!target) {
+              return { success: false, error: missingSpaceError }
+            }
+            try {
+              const update = await prepareTaskUpdate(target.path, { filePath, line, text }, taskLine => setTaskLineDueDate(taskLine, due))
+              if (!update.ok) {
+                return { success: false, error: update.error }
+              }
+              if (update.newContent === update.previousContent) {
+                return { success: true, message: `"${update.task.text}" already has this due date.`, diff: '' }
+              }
+
+              return {
+                success: true,
+                message: due ? `Moved "${update.task.text}" to ${due} in ${update.task.relativePath}` : `Removed the due date of "${update.task.text}"`,
+                diff: createUnifiedDiff(update.previousContent, update.newContent, update.task.relativePath),
+                ...(await commitNoteChange(target, 'rescheduleTask', due ? 'reschedule' : 'remove_due_date', update.filePath, update.previousContent, update.newContent)),
+              }
+            } catch (error) {
+              return { success: false, error: `Failed to update task: ${error instanceof Error ? error.message : String(error)}` }
+            }
+          },
+        }),
+        updateGoalProgress: tool({
+          description: `Update a key result of a goal in ${GOALS_FILE}: tick a checkbox key result, or set the numbers of a "progress: current/target" key result. Goal and key result are found by their text. Returns the new progress and a unified diff of the change.`,
+          parameters: z.object({
+            goal: z.string().describe('The goal title (the heading in GOALS.md)'),
+            keyResult: z.string().describe('The text of the key result'),
+            completed: z.boolean().optional().describe('For checkbox key results: true when done, false to reopen'),
+            current: z.number().min(0).optional().describe('For numeric key results: the new current value'),
+            target: z.number().positive().optional().describe('For numeric key results: a new target value, if it changed'),
+            ...targetSpaceShape,
+          }),
+          execute: async ({ goal, keyResult, completed, current, target, space }) => {
+            const targetSpace = getTargetSpace(space)
+            if (!targetSpace) {
+              return { success: false, error: missingSpaceError }
+            }
+            const resolved = await resolveSandboxedPath(targetSpace.path, GOALS_FILE)
+            if (!resolved.ok) {
+              return { success: false, code: resolved.code, error: resolved.error }
+            }
+            if (!resolved.exists) {
+              return { success: false, error: `This space has no ${GOALS_FILE}. Offer to create one with writeToFile.` }
+            }
+
+            try {
+              const original = await readFile(resolved.path, 'utf-8')
+              const result = updateKeyResult(original, goal, keyResult, { completed, current, target })
+              if (!result.ok) {
+                return { success: false, error: result.error, candidates: result.candidates }
+              }
+              if (result.content === original) {
+                return { success: true, message: 'The key result already has this progress, nothing was changed.', diff: '' }
+              }
+
+              return {
+                success: true,
+                message: result.message,
+                diff: createUnifiedDiff(original, result.content, GOALS_FILE),
+                ...(await commitNoteChange(targetSpace, 'updateGoalProgress', 'update_key_result', resolved.path, original, result.content)),
+              }
+            } catch (error) {
+              return { success: false, error: `Failed to update goal: ${error instanceof Error ? error.message : String(error)}` }
+            }
+          },
+        }),
+        getHabitStats: tool({
+          description: `Get streaks and completion rates of the habits listed in ${HABITS_FILE}, computed from the checked items in the daily notes: current and longest streak, completion rate per ISO week, and the missed days.`,
+          parameters: z.object({
+            habit: z.string().optional().describe('Only this habit (case-insensitive, partial match). All habits when omitted.'),
+            weeks: z.number().int().min(1).max(52).optional().default(DEFAULT_HABIT_WEEKS).describe(`How many weeks to look back (default: ${DEFAULT_HABIT_WEEKS})`),
+          }),
+          execute: async ({ habit, weeks }) => {
+            if (!notesRoot) {
+              return { success: false, error: 'No notes folder is configured, so there are no habits.' }
+            }
+            try {
+              // In multi-space chats, the habits of all spaces are listed with their space
+              const reports = multiSpace
+                ? await Promise.all(chatSpaces.map(async space => {
+                  const spaceReport = await getHabitReport(space.path, weeks)
+                  return { ...spaceReport, habits: spaceReport.habits.map(stats => ({ ...stats, name: labelWithSpace(space.name, stats.name) })) }
+                }))
+                : [await getHabitReport(notesRoot, weeks)]
+              const report = {
+                from: reports.map(spaceReport => spaceReport.from).filter(Boolean).sort()[0],
+                to: reports[0].to,
+                dailyNoteCount: reports.reduce((sum, spaceReport) => sum + spaceReport.dailyNoteCount, 0),
+                habits: reports.flatMap(spaceReport => spaceReport.habits),
+              }
+              if (report.habits.length === 0) {
+                return { success: false, error: `This space has no ${HABITS_FILE}. Offer to create one that lists the habits to track, one per list item.` }
+              }
+
+              const habits = habit
+                ? report.habits.filter(stats => stats.name.toLowerCase().includes(habit.trim().toLowerCase()))
+                : report.habits
+              if (habits.length === 0) {
+                return { success: false, error: `No habit matching "${habit}".`, habits: report.habits.map(stats => stats.name) }
+              }
+
+              return { success: true, ...report, habits }
+            } catch (error) {
+              return { success: false, error: `Failed to compute habit stats: ${error instanceof Error ? error.message : String(error)}` }
+            }
+          },
+        }),
+        remember: tool({
+          description: `Store a durable fact about the user in their long-term memory (${MEMORY_FILE}), so it is available in future conversations. Use it for goals, preferences, commitments and obstacles, not for one-off requests.`,
+          parameters: z.object({
+            category: z.enum(MEMORY_CATEGORIES).describe('The kind of fact'),
+            text: z.string().describe('The fact as one short sentence, e.g. "Wants to run a half marathon in May"'),
+            ...targetSpaceShape,
+          }),
+          execute: async ({ category, text, space }) => {
+            if (!notesRoot) {
+              return { success: false, error: 'No notes folder is configured, so nothing can be remembered.' }
+            }
+            const target = getTargetSpace(space)
+            if (!target) {
+              return { success: false, error: missingSpaceError }
+            }
+            try {
+              const { entries: added, pendingChange } = await rememberFacts(target.path, [{ category, text }], 'remember', target.settings.requireApproval)
+              if (pendingChange) {
+                return { success: true, ...describePendingChange(pendingChange) }
+              }
+              return added.length > 0
+                ? { success: true, message: `Remembered: ${text}` }
+                : { success: true, message: 'This is already in memory.' }
+            } catch (error) {
+              return { success: false, error: `Failed to update memory: ${error}` }
+            }
+          },
+        }),
+        forget: tool({
+          description: `Remove facts from the user's long-term memory (${MEMORY_FILE}). Use it when the user asks you to forget something, or when a remembered fact is no longer true.`,
+          parameters: z.object({
+            query: z.string().describe('Words describing the fact(s) to forget'),
+            ...targetSpaceShape,
+          }),
+          execute: async ({ query, space }) => {
+            if (!notesRoot) {
+              return { success: false, error: 'No notes folder is configured, so there is no memory.' }
+            }
+            const target = getTargetSpace(space)
+            if (!target) {
+              return { success: false, error: missingSpaceError }
+            }
+            try {
+              const { entries: removed, pendingChange } = await forgetFacts(target.path, query, 'forget', target.settings.requireApproval)
+              if (removed.length === 0) {
+                return { success: false, error: `Nothing in memory matches "${query}".` }
+              }
+              return { success: true, forgotten: removed.map(entry => entry.text), ...(pendingChange && describePendingChange(pendingChange)) }
+            } catch (error) {
+              return { success: false, error: `Failed to update memory: ${error}` }
+            }
+          },
+        }),
         createGoogleCalendarLink: tool({
           description: 'Generate a Google Calendar link and .ics file for creating a calendar event. Use this when the user asks to create a calendar reminder, event, or schedule something. Returns both a Google Calendar link and an .ics file download link that works with any calendar app (Apple Calendar, Outlook, etc.). CRITICAL INSTRUCTIONS: The tool returns a "message" field that contains the complete formatted response with markdown links. You MUST use the "message" field value EXACTLY as-is in your response. Do NOT create your own links, modify the URLs, add your own text, or use localhost URLs. Simply return the "message" field value directly without any modifications.',
           parameters: z.object({
@@ -538,7 +1088,16 @@ Always use the writeToFile tool with mode='append' when adding TODO items. The f
 
     console.log(`[Chat API] streamText result created, streaming response...`)
 
-    return result.toDataStreamResponse()
+    return result.toDataStreamResponse({
+      data,
+      init: {
+        headers: {
+          // File paths may contain non-ASCII characters, which are not allowed in headers
+          'X-Notes-Used': encodeURIComponent(JSON.stringify(notesUsed)),
+          'X-Prompt-Budget': JSON.stringify(budget),
+        },
+      },
+    })
   } catch (error) {
     console.error('[Chat API] ❌ Error in chat API:', error)
     if (error instanceof Error) {
@@ -551,53 +1110,3 @@ Always use the writeToFile tool with mode='append' when adding TODO items. The f
     })
   }
 }
-
-async function readNotesFromFolder(folderPath: string): Promise<{ 
-  notes: string[], 
-  metadata: Array<{ name: string; path: string; mtime: Date }> 
-}> {
-  const notes: string[] = []
-  const metadata: Array<{ name: string; path: string; mtime: Date }> = []
-  const textFileExtensions = ['.md', '.txt', '.markdown', '.mdx']
-  
-  try {
-    const entries = await readdir(folderPath)
-    
-    for (const entry of entries) {
-      const fullPath = join(folderPath, entry)
-      
-      try {
-        const stats = await stat(fullPath)
-        
-        // Only process files (not directories)
-        if (stats.isFile()) {
-          const ext = entry.substring(entry.lastIndexOf('.')).toLowerCase()
-          
-          // Only read text files
-          if (textFileExtensions.includes(ext)) {
-            try {
-              const content = await readFile(fullPath, 'utf-8')
-              notes.push(`### ${entry}\n\n${content}`)
-              
-              // Track file metadata
-              metadata.push({
-                name: entry,
-                path: fullPath,
-                mtime: stats.mtime
-              })
-            } catch (readError) {
-              console.error(`Error reading file ${entry}:`, readError)
-            }
-          }
-        }
-      } catch (statError) {
-        console.error(`Error getting stats for ${entry}:`, statError)
-      }
-    }
-  } catch (error) {
-    throw new Error(`Failed to read folder: ${error}`)
-  }
-  
-  return { notes, metadata }
-}
-
@@ -0,0 +1,206 @@
+import { readFile } from 'fs/promises'
+import { commitChange } from '@/lib/changes'
+import { parseApiKeys, type ApiKeys } from '@/lib/credentials'
+import { formatCommandHelp, formatReminderDateTime, getCommandInfo, parseCommand, parseReminder, type ParsedCommand } from '@/lib/commands'
+import { findDailyNotePath } from '@/lib/dailyNotes'
+import { localDateString } from '@/lib/dates'
+import { insertUnderHeading } from '@/lib/markdown'
+import { getAvailableModels } from '@/lib/modelRegistry'
+import { createWeeklyReview } from '@/lib/review'
+import { resolveSandboxedPath } from '@/lib/sandbox'
+import { readSpaceSettings, resolveSpacePath, getModelPolicyError } from '@/lib/spaceSettings'
+import { readState, withStateLock, writeState } from '@/lib/state'
+
+type CommandAction =
+  | { type: 'space'; space: { name: string; path: string } }
+  | { type: 'model'; modelId: string }
+
+type CommandResult =
+  | { ok: true; reply: string; action?: CommandAction }
+  | { ok: false; error: string; status: number }
+
+interface CommandContext {
+  notesFolderPath: string  // Root of the notes folder
+  spacePath: string  // The selected space, or the notes folder without spaces
+  calendarUrl: string
+  model: string
+  apiKeys: ApiKeys
+}
+
+function log(...args: any[]) {
+  const timestamp = new Date().toISOString()
+  console.log(`[CommandsAPI ${timestamp}]`, ...args)
+}
+
+function usageError(command: ParsedCommand): CommandResult {
+  return { ok: false, error: `Usage: ${getCommandInfo(command.name).usage}`, status: 400 }
+}
+
+// Adds a checkbox under the TODO heading of today's daily note
+async function addTodo(context: CommandContext, text: string): Promise<CommandResult> {
+  const relativePath = await findDailyNotePath(context.spacePath, localDateString())
+  const resolved = await resolveSandboxedPath(context.spacePath, relativePath)
+  if (!resolved.ok) {
+    return { ok: false, error: resolved.error, status: 403 }
+  }
+
+  const original = resolved.exists ? await readFile(resolved.path, 'utf-8') : ''
+  const item = /^([-*+]\s+\[[ xX]\]|TODO:)/.test(text) ? text : `- [ ] ${text}`
+  const result = insertUnderHeading(original, 'TODO', item)
+  if (!result.ok) {
+    return { ok: false, error: result.error, status: 409 }
+  }
+
+  const settings = await readSpaceSettings(context.spacePath)
+  const committed = await commitChange(context.spacePath, settings.requireApproval, {
+    tool: 'todoCommand',
+    action: 'insert_under_heading',
+    filePath: resolved.path,
+    previousContent: resolved.exists ? original : null,
+    newContent: result.content,
+  })
+  if ('pendingChange' in committed) {
+    return { ok: true, reply: `Proposed adding \`${item}\` to ${relativePath}. This space requires approval: review the change below.` }
+  }
+  return { ok: true, reply: `Added \`${item}\` to ${relativePath}.` }
+}
+
+// Stores a reminder in state.json, where the reminders check picks it up
+async function addReminder(context: CommandContext, command: ParsedCommand): Promise<CommandResult> {
+  const reminder = parseReminder(command.args)
+  if (!reminder || !reminder.text) {
+    return { ok: false, error: `Usage: ${getCommandInfo('remind').usage}, where <when> is like "in 30m", "15:00", "tomorrow 9am" or "2026-11-01 09:00"`, status: 400 }
+  }
+  if (reminder.dateTime.getTime() <= Date.now()) {
+    return { ok: false, error: 'That time has already passed.', status: 400 }
+  }
+
+  const settings = await readSpaceSettings(context.spacePath)
+  if (settings.reminders?.enabled === false) {
+    return { ok: false, error: 'Reminders are turned off in the settings of this space.', status: 409 }
+  }
+
+  await withStateLock(context.spacePath, async () => {
+    const state = await readState(context.spacePath)
+    const reminders = Array.isArray(state.reminders) ? state.reminders : []
+    const dateTime = formatReminderDateTime(reminder.dateTime)
+    // Marked as set by a command, so re-extracting reminders from CONTEXT.md keeps it
+    reminders.push({ dateTime, reminderText: reminder.text, source: 'command' })
+    await writeState(context.spacePath, { ...state, reminders })
+  })
+
+  return { ok: true, reply: `I will remind you to ${reminder.text} on ${reminder.dateTime.toLocaleString()}.` }
+}
+
+async function switchSpace(context: CommandContext, name: string): Promise<CommandResult> {
+  if (!context.notesFolderPath) {
+    return { ok: false, error: 'Set a notes folder first, its folders are the spaces.', status: 400 }
+  }
+  const path = await resolveSpacePath(context.notesFolderPath, name)
+  if (!path) {
+    return { ok: false, error: `Space "${name}" not found.`, status: 404 }
+  }
+  return { ok: true, reply: `Switched to the space ${name}.`, action: { type: 'space', space: { name, path } } }
+}
+
+async function switchModel(context: CommandContext, id: string): Promise<CommandResult> {
+  const wanted = id.toLowerCase()
+  const models = await getAvailableModels()
+  const model = models.find(m => m.id.toLowerCase() === wanted || m.modelId.toLowerCase() === wanted)
+  if (!model) {
+    const candidates = models.filter(m => m.id.toLowerCase().includes(wanted) || m.name.toLowerCase().includes(wanted))
+    return {
+      ok: false,
+      error: `Unknown model "${id}".` + (candidates.length > 0 ? ` Did you mean ${candidates.map(m => `\`${m.id}\``).join(', ')}?` : ''),
+      status: 404,
+    }
+  }
+
+  const policyError = context.spacePath ? getModelPolicyError(await readSpaceSettings(context.spacePath), model) : null
+  if (policyError) {
+    return { ok: false, error: policyError, status: 403 }
+  }
+  return { ok: true, reply: `Switched to ${model.name}.`, action: { type: 'model', modelId: model.id } }
+}
+
+async function writeReview(context: CommandContext): Promise<CommandResult> {
+  const result = await createWeeklyReview(context.spacePath, {
+    modelId: context.model || undefined,
+    apiKeys: context.apiKeys,
+    calendarUrl: context.calendarUrl,
+  })
+  if (!result.ok) {
+    return result
+  }
+  log(`Wrote review ${result.data.week} for ${context.spacePath}`)
+  return { ok: true, reply: `Wrote the weekly review to ${result.relativePath}.\n\n${result.content}` }
+}
+
+async function runCommand(command: ParsedCommand, context: CommandContext): Promise<CommandResult> {
+  if (getCommandInfo(command.name).kind === 'prompt') {
+    return { ok: false, error: `/${command.name} is answered in the chat.`, status: 400 }
+  }
+  if (command.name === 'help') {
+    return { ok: true, reply: formatCommandHelp() }
+  }
+  if (command.name === 'model') {
+    return command.args ? switchModel(context, command.args) : usageError(command)
+  }
+  if (command.name === 'space') {
+    return command.args ? switchSpace(context, command.args) : usageError(command)
+  }
+
+  if (!context.spacePath) {
+    return { ok: false, error: `Set a notes folder first to use /${command.name}.`, status: 400 }
+  }
+  switch (command.name) {
+    case 'todo':
+      return command.args ? addTodo(context, command.args) : usageError(command)
+    case 'remind':
+      return addReminder(context, command)
+    case 'review':
+      return writeReview(context)
+  }
+  return usageError(command)
+}
+
+// Runs a slash command typed in the chat input without a model round-trip
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const input = typeof body?.input === 'string' ? body.input : ''
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+    const space = typeof body?.space === 'string' ? body.space.trim() : ''
+
+    const command = parseCommand(input)
+    if (!command) {
+      return Response.json({ ok: false, error: `Unknown command. ${formatCommandHelp()}` }, { status: 400 })
+    }
+
+    let spacePath = notesFolderPath
+    if (space) {
+      const resolved = notesFolderPath ? await resolveSpacePath(notesFolderPath, space) : null
+      if (!resolved) {
+        return Response.json({ ok: false, error: `Space "${space}" not found.` }, { status: 404 })
+      }
+      spacePath = resolved
+    }
+
+    const result = await runCommand(command, {
+      notesFolderPath,
+      spacePath,
+      calendarUrl: typeof body?.calendarUrl === 'string' ? body.calendarUrl.trim() : '',
+      model: typeof body?.model === 'string' ? body.model : '',
+      apiKeys: parseApiKeys(body),
+    })
+    if (!result.ok) {
+      return Response.json({ ok: false, error: result.error }, { status: result.status })
+    }
+
+    log(`Ran /${command.name} in ${spacePath || 'no notes folder'}`)
+    return Response.json({ ok: true, command: command.name, reply: result.reply, action: result.action })
+  } catch (error) {
+    log('Error running command:', error)
+    return Response.json({ ok: false, error: 'Failed to run the command' }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { loadConversation, renameConversation, deleteConversation } from '@/lib/conversations'
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    const conversation = await loadConversation(notesFolderPath, params.id)
+    if (!conversation) {
+      return Response.json({ ok: false, error: 'Conversation not found' }, { status: 404 })
+    }
+
+    return Response.json({ ok: true, conversation })
+  } catch (error) {
+    console.error('Error loading conversation:', error)
+    return Response.json({ ok: false, error: 'Failed to load conversation' }, { status: 500 })
+  }
+}
+
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+    const title = typeof body?.title === 'string' ? body.title.trim() : ''
+
+    if (!notesFolderPath || !title) {
+      return Response.json({ ok: false, error: 'notesFolderPath and title are required' }, { status: 400 })
+    }
+
+    const conversation = await renameConversation(notesFolderPath, params.id, title)
+    if (!conversation) {
+      return Response.json({ ok: false, error: 'Conversation not found' }, { status: 404 })
+    }
+
+    return Response.json({ ok: true, title: conversation.title })
+  } catch (error) {
+    console.error('Error renaming conversation:', error)
+    return Response.json({ ok: false, error: 'Failed to rename conversation' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteConversation(notesFolderPath, params.id)
+    if (!deleted) {
+      return Response.json({ ok: false, error: 'Conversation not found' }, { status: 404 })
+    }
+
+    return Response.json({ ok: true })
+  } catch (error) {
+    console.error('Error deleting conversation:', error)
+    return Response.json({ ok: false, error: 'Failed to delete conversation' }, { status: 500 })
+  }
+}
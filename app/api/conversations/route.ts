@@ -0,0 +1,50 @@
+import { listConversations, saveConversation, isStoredMessage, isValidConversationId } from '@/lib/conversations'
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    const conversations = await listConversations(notesFolderPath)
+
+    return Response.json({ ok: true, conversations })
+  } catch (error) {
+    console.error('Error in conversations API:', error)
+    return Response.json({ ok: false, error: 'Failed to list conversations' }, { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+    const id = typeof body?.id === 'string' && body.id ? body.id : undefined
+
+    if (!notesFolderPath || !Array.isArray(body?.messages)) {
+      return Response.json({ ok: false, error: 'notesFolderPath and messages are required' }, { status: 400 })
+    }
+    if (!body.messages.every(isStoredMessage)) {
+      return Response.json({ ok: false, error: 'Each message needs a known role and string content' }, { status: 400 })
+    }
+    if (id && !isValidConversationId(id)) {
+      return Response.json({ ok: false, error: 'Invalid conversation id' }, { status: 400 })
+    }
+
+    const conversation = await saveConversation(notesFolderPath, {
+      id,
+      title: typeof body?.title === 'string' ? body.title : undefined,
+      model: typeof body?.model === 'string' ? body.model : '',
+      messages: body.messages,
+    })
+
+    const { messages, ...summary } = conversation
+    return Response.json({ ok: true, conversation: { ...summary, messageCount: messages.length } })
+  } catch (error) {
+    console.error('Error saving conversation:', error)
+    return Response.json({ ok: false, error: 'Failed to save conversation' }, { status: 500 })
+  }
+}
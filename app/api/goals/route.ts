@@ -0,0 +1,19 @@
+import { readGoals } from '@/lib/goals'
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    const goals = await readGoals(notesFolderPath)
+
+    return Response.json({ ok: true, goals })
+  } catch (error) {
+    console.error('Error in goals API:', error)
+    return Response.json({ ok: false, error: 'Failed to read goals' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { getHabitReport, DEFAULT_HABIT_WEEKS, HABITS_FILE } from '@/lib/habits'
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+    const weeks = parseInt(searchParams.get('weeks') || '', 10)
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    const report = await getHabitReport(notesFolderPath, Number.isFinite(weeks) && weeks > 0 ? Math.min(weeks, 52) : DEFAULT_HABIT_WEEKS)
+    if (report.habits.length === 0) {
+      return Response.json({ ok: true, ...report, message: `No habits defined. Add a ${HABITS_FILE} with one habit per list item.` })
+    }
+
+    return Response.json({ ok: true, ...report })
+  } catch (error) {
+    console.error('Error in habits API:', error)
+    return Response.json({ ok: false, error: 'Failed to compute habit stats' }, { status: 500 })
+  }
+}
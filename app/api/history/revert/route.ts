@@ -0,0 +1,24 @@
+import { revertEdit } from '@/lib/history'
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+    const id = typeof body?.id === 'string' ? body.id : ''
+
+    if (!notesFolderPath || !id) {
+      return Response.json({ ok: false, error: 'notesFolderPath and id are required' }, { status: 400 })
+    }
+
+    const result = await revertEdit(notesFolderPath, id, body?.force === true)
+    if (!result.ok) {
+      return Response.json({ ok: false, error: result.error }, { status: result.status })
+    }
+
+    console.log(`[History] Reverted ${result.entry.tool} edit ${id} to ${result.entry.relativePath}`)
+    return Response.json({ ok: true, entry: result.entry })
+  } catch (error) {
+    console.error('Error in history revert API:', error)
+    return Response.json({ ok: false, error: 'Failed to revert edit' }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { listHistory } from '@/lib/history'
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+    const limit = parseInt(searchParams.get('limit') || '', 10)
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    const entries = await listHistory(notesFolderPath, Number.isFinite(limit) && limit > 0 ? limit : undefined)
+
+    return Response.json({ ok: true, entries })
+  } catch (error) {
+    console.error('Error in history API:', error)
+    return Response.json({ ok: false, error: 'Failed to read edit history' }, { status: 500 })
+  }
+}
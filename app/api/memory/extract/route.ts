@@ -0,0 +1,58 @@
+import { parseApiKeys } from '@/lib/credentials'
+import { DEFAULT_MODEL } from '@/lib/models'
+import { findModel } from '@/lib/modelRegistry'
+import { getModel } from '@/lib/providers'
+import { extractMemories, readMemory, rememberFacts } from '@/lib/memory'
+import { toChangeSummary } from '@/lib/changes'
+import { readSpaceSettings, getModelPolicyError } from '@/lib/spaceSettings'
+
+// Only the end of long conversations is sent to the model
+const MAX_TRANSCRIPT_MESSAGES = 30
+
+function log(...args: any[]) {
+  const timestamp = new Date().toISOString()
+  console.log(`[MemoryAPI ${timestamp}]`, ...args)
+}
+
+// Called by the UI when a conversation ends, to store durable facts in MEMORY.md
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+    const apiKeys = parseApiKeys(body)
+
+    if (!notesFolderPath || !Array.isArray(body?.messages)) {
+      return Response.json({ ok: false, error: 'notesFolderPath and messages are required' }, { status: 400 })
+    }
+
+    const transcript = body.messages
+      .filter((message: any) => typeof message?.role === 'string' && typeof message?.content === 'string')
+      .slice(-MAX_TRANSCRIPT_MESSAGES)
+
+    if (!transcript.some((message: any) => message.role === 'user')) {
+      return Response.json({ ok: true, remembered: [] })
+    }
+
+    const settings = await readSpaceSettings(notesFolderPath)
+    const modelId = body?.model || settings.defaultModel || DEFAULT_MODEL
+    const modelConfig = await findModel(modelId)
+    if (!modelConfig) {
+      return Response.json({ ok: false, error: `Unknown model "${modelId}"` }, { status: 400 })
+    }
+    const policyError = getModelPolicyError(settings, modelConfig)
+    if (policyError) {
+      return Response.json({ ok: false, error: policyError }, { status: 403 })
+    }
+
+    const model = await getModel(modelId, apiKeys)
+    const existing = await readMemory(notesFolderPath)
+    const facts = await extractMemories(model, transcript, existing)
+    const { entries: remembered, pendingChange } = await rememberFacts(notesFolderPath, facts, 'memoryExtraction', settings.requireApproval)
+
+    log(`Extracted ${facts.length} fact(s), ${remembered.length} new, for ${notesFolderPath}` + (pendingChange ? `, waiting for approval as change ${pendingChange.id}` : ''))
+    return Response.json({ ok: true, remembered, ...(pendingChange && { pendingChange: toChangeSummary(pendingChange) }) })
+  } catch (error) {
+    log('Error extracting memories:', error)
+    return Response.json({ ok: false, error: 'Failed to extract memories' }, { status: 500 })
+  }
+}
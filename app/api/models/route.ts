@@ -0,0 +1,14 @@
+import { DEFAULT_MODEL } from '@/lib/models'
+import { getAvailableModels, loadUserModels } from '@/lib/modelRegistry'
+
+// Lists the built-in models and the models of the user's models.json
+export async function GET() {
+  try {
+    const { path, errors } = await loadUserModels()
+    const models = await getAvailableModels()
+    return Response.json({ ok: true, models, defaultModel: DEFAULT_MODEL, modelsFile: path, errors })
+  } catch (error) {
+    console.error('Error in models API:', error)
+    return Response.json({ ok: false, error: 'Failed to list the models' }, { status: 500 })
+  }
+}
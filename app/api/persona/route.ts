@@ -0,0 +1,18 @@
+import { readCoachPersona } from '@/lib/persona'
+
+// Returns the coach persona of a space, or null for the default coach
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    return Response.json({ ok: true, persona: await readCoachPersona(notesFolderPath) })
+  } catch (error) {
+    console.error('Error in persona API:', error)
+    return Response.json({ ok: false, error: 'Failed to read the coach persona' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
-import { readFile, writeFile } from 'fs/promises'
+import { readFile } from 'fs/promises'
 import fs from 'fs'
 import { join } from 'path'
+import { withStateLock, writeState } from '@/lib/state'
 
 type StateFile = {
   reminders?: Array<{
@@ -45,62 +46,65 @@ export async function POST(req: Request) {
       )
     }
 
-    const statePath = join(notesFolderPath, 'state.json')
+    // One update, so marking reminders can't undo another route's change to state.json
+    return await withStateLock(notesFolderPath, async () => {
+      const statePath = join(notesFolderPath, 'state.json')
 
-    // Load state.json
-    let state: StateFile = {}
-    if (fs.existsSync(statePath)) {
-      try {
-        const raw = await readFile(statePath, 'utf-8')
-        state = raw.trim() ? (JSON.parse(raw) as StateFile) : {}
-      } catch (err) {
-        log('Failed to read/parse state.json:', err)
+      // Load state.json
+      let state: StateFile = {}
+      if (fs.existsSync(statePath)) {
+        try {
+          const raw = await readFile(statePath, 'utf-8')
+          state = raw.trim() ? (JSON.parse(raw) as StateFile) : {}
+        } catch (err) {
+          log('Failed to read/parse state.json:', err)
+          return new Response(
+            JSON.stringify({ ok: false, error: 'Failed to read state.json' }),
+            { status: 500, headers: { 'Content-Type': 'application/json' } },
+          )
+        }
+      } else {
+        log('state.json does not exist.')
         return new Response(
-          JSON.stringify({ ok: false, error: 'Failed to read state.json' }),
-          { status: 500, headers: { 'Content-Type': 'application/json' } },
+          JSON.stringify({ ok: false, error: 'state.json does not exist' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } },
         )
       }
-    } else {
-      log('state.json does not exist.')
-      return new Response(
-        JSON.stringify({ ok: false, error: 'state.json does not exist' }),
-        { status: 404, headers: { 'Content-Type': 'application/json' } },
-      )
-    }
 
-    const reminders = state.reminders || []
-    let markedCount = 0
+      const reminders = state.reminders || []
+      let markedCount = 0
 
-    // Mark reminders as completed
-    for (const reminder of reminders) {
-      if (reminderDateTimes.includes(reminder.dateTime) && !reminder.completed) {
-        reminder.completed = true
-        markedCount++
-        log(`Marked reminder as completed: "${reminder.reminderText}" at ${reminder.dateTime}`)
+      // Mark reminders as completed
+      for (const reminder of reminders) {
+        if (reminderDateTimes.includes(reminder.dateTime) && !reminder.completed) {
+          reminder.completed = true
+          markedCount++
+          log(`Marked reminder as completed: "${reminder.reminderText}" at ${reminder.dateTime}`)
+        }
       }
-    }
 
-    if (markedCount === 0) {
-      log('No reminders were marked as completed (they may already be completed or not found).')
-      return new Response(
-        JSON.stringify({ ok: true, markedCount: 0 }),
-        { status: 200, headers: { 'Content-Type': 'application/json' } },
-      )
-    }
+      if (markedCount === 0) {
+        log('No reminders were marked as completed (they may already be completed or not found).')
+        return new Response(
+          JSON.stringify({ ok: true, markedCount: 0 }),
+          { status: 200, headers: { 'Content-Type': 'application/json' } },
+        )
+      }
 
-    // Save updated state
-    const updatedState: StateFile = {
-      ...state,
-      reminders,
-    }
+      // Save updated state
+      const updatedState: StateFile = {
+        ...state,
+        reminders,
+      }
 
-    await writeFile(statePath, JSON.stringify(updatedState, null, 2), 'utf-8')
-    log(`Marked ${markedCount} reminder(s) as completed and updated state.json`)
+      await writeState(notesFolderPath, updatedState)
+      log(`Marked ${markedCount} reminder(s) as completed and updated state.json`)
 
-    return new Response(
-      JSON.stringify({ ok: true, markedCount }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } },
-    )
+      return new Response(
+        JSON.stringify({ ok: true, markedCount }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } },
+      )
+    })
   } catch (err) {
     log('Unexpected error in reminders complete API:', err)
     return new Response(JSON.stringify({ ok: false, error: 'Internal Server Error' }), {
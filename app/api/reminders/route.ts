@@ -1,6 +1,12 @@
-import { readFile, stat, writeFile } from 'fs/promises'
+import { generateText } from 'ai'
+import { readFile, stat } from 'fs/promises'
 import fs from 'fs'
 import { join } from 'path'
+import { parseApiKeys, type ApiKeys } from '@/lib/credentials'
+import { findModel } from '@/lib/modelRegistry'
+import { getModel } from '@/lib/providers'
+import { readSpaceSettings, getModelPolicyError } from '@/lib/spaceSettings'
+import { readState, withStateLock, writeState } from '@/lib/state'
 
 type RemindersPayload = {
   reminders: Array<{
@@ -14,6 +20,7 @@ type StateFile = {
     dateTime: string
     reminderText: string
     completed?: boolean
+    source?: 'command'  // Set with /remind instead of extracted from CONTEXT.md
   }>
   lastRun?: string
   lastContextMtimeMs?: number
@@ -31,7 +38,7 @@ export async function POST(req: Request) {
   try {
     const body = await req.json().catch(() => ({}))
     const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
-    const openaiApiKey = typeof body?.openaiApiKey === 'string' ? body.openaiApiKey.trim() : ''
+    const apiKeys = parseApiKeys(body)
 
     if (!notesFolderPath) {
       log('Missing notesFolderPath in request body. Skipping.')
@@ -41,6 +48,26 @@ export async function POST(req: Request) {
       })
     }
 
+    // Reminder settings of the space (space.json)
+    const settings = await readSpaceSettings(notesFolderPath)
+    if (settings.reminders?.enabled === false) {
+      return new Response(
+        JSON.stringify({ ok: true, skipped: 'disabled' }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } },
+      )
+    }
+
+    // Local-only spaces use their local reminders or default model, never OpenAI
+    const remindersModelId = settings.reminders?.model || (settings.localOnly ? settings.defaultModel : undefined)
+    const policyError = settings.localOnly ? getModelPolicyError(settings, remindersModelId ? await findModel(remindersModelId) : undefined) : null
+    if (policyError) {
+      log('Skipping reminder extraction:', policyError)
+      return new Response(
+        JSON.stringify({ ok: true, skipped: 'local-only', error: policyError }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } },
+      )
+    }
+
     // Define state path relative to the notes folder
     const statePath = join(notesFolderPath, 'state.json')
     const contextPath = join(notesFolderPath, 'CONTEXT.md')
@@ -88,9 +115,11 @@ export async function POST(req: Request) {
     }
 
     const contextContent = await readFile(contextPath, 'utf-8')
-    log('CONTEXT.md changed, calling OpenAI to extract reminders...')
+    log(`CONTEXT.md changed, calling ${remindersModelId || 'OpenAI'} to extract reminders...`)
 
-    const remindersPayload = await callOpenAIForReminders(contextContent, openaiApiKey)
+    const remindersPayload = remindersModelId
+      ? await callModelForReminders(remindersModelId, contextContent, apiKeys)
+      : await callOpenAIForReminders(contextContent, apiKeys.openai || '')
 
     if (!remindersPayload) {
       log('OpenAI did not return a valid reminders payload. Skipping state update.')
@@ -102,52 +131,60 @@ export async function POST(req: Request) {
 
     const nowIso = new Date().toISOString()
 
-    // Merge new reminders with existing ones, preserving completed status
-    const existingReminders = state.reminders || []
-    const existingRemindersMap = new Map<string, { dateTime: string; reminderText: string; completed?: boolean }>()
+    // Merge into the current state.json, which may have changed during the model call
+    await withStateLock(notesFolderPath, async () => {
+      const currentState: StateFile = await readState(notesFolderPath).catch(err => {
+        log('Failed to read/parse existing state.json, starting fresh:', err)
+        return {}
+      })
 
-    // Create a map of existing reminders by dateTime
-    for (const existing of existingReminders) {
-      existingRemindersMap.set(existing.dateTime, existing)
-    }
+      // Merge new reminders with existing ones, preserving completed status
+      const existingReminders = currentState.reminders || []
+      const existingRemindersMap = new Map<string, { dateTime: string; reminderText: string; completed?: boolean; source?: 'command' }>()
 
-    // Merge: preserve completed reminders, update/add others
-    const mergedReminders: Array<{ dateTime: string; reminderText: string; completed?: boolean }> = []
-
-    // First, add all new reminders (or update existing non-completed ones)
-    for (const newReminder of remindersPayload.reminders) {
-      const existing = existingRemindersMap.get(newReminder.dateTime)
-      if (existing && existing.completed === true) {
-        // Keep the completed reminder as-is
-        mergedReminders.push(existing)
-        log(`Preserving completed reminder: "${existing.reminderText}" at ${existing.dateTime}`)
-      } else {
-        // Add new reminder or update existing non-completed one
-        mergedReminders.push(newReminder)
+      // Create a map of existing reminders by dateTime
+      for (const existing of existingReminders) {
+        existingRemindersMap.set(existing.dateTime, existing)
       }
-    }
 
-    // Add any existing completed reminders that are not in the new list
-    for (const existing of existingReminders) {
-      if (existing.completed === true) {
-        const stillExists = remindersPayload.reminders.some(r => r.dateTime === existing.dateTime)
-        if (!stillExists) {
-          // Keep completed reminders even if they're not in the new list
+      // Merge: preserve completed reminders, update/add others
+      const mergedReminders: Array<{ dateTime: string; reminderText: string; completed?: boolean; source?: 'command' }> = []
+
+      // First, add all new reminders (or update existing non-completed ones)
+      for (const newReminder of remindersPayload.reminders) {
+        const existing = existingRemindersMap.get(newReminder.dateTime)
+        if (existing && existing.completed === true) {
+          // Keep the completed reminder as-is
           mergedReminders.push(existing)
-          log(`Preserving completed reminder not in new list: "${existing.reminderText}" at ${existing.dateTime}`)
+          log(`Preserving completed reminder: "${existing.reminderText}" at ${existing.dateTime}`)
+        } else {
+          // Add new reminder or update existing non-completed one
+          mergedReminders.push(newReminder)
         }
       }
-    }
 
-    const newState: StateFile = {
-      ...state,
-      reminders: mergedReminders,
-      lastRun: nowIso,
-      lastContextMtimeMs: currentMtimeMs,
-      notesFolderPath: notesFolderPath,
-    }
+      // Add any existing completed reminders, and the ones set with /remind, that are not in the new list
+      for (const existing of existingReminders) {
+        if (existing.completed === true || existing.source === 'command') {
+          const stillExists = remindersPayload.reminders.some(r => r.dateTime === existing.dateTime)
+          if (!stillExists) {
+            // Keep completed reminders even if they're not in the new list
+            mergedReminders.push(existing)
+            log(`Preserving ${existing.completed ? 'completed' : 'command'} reminder not in new list: "${existing.reminderText}" at ${existing.dateTime}`)
+          }
+        }
+      }
+
+      const newState: StateFile = {
+        ...currentState,
+        reminders: mergedReminders,
+        lastRun: nowIso,
+        lastContextMtimeMs: currentMtimeMs,
+        notesFolderPath: notesFolderPath,
+      }
 
-    await writeFile(statePath, JSON.stringify(newState, null, 2), 'utf-8')
+      await writeState(notesFolderPath, newState)
+    })
     log('Updated state.json with new reminders and lastRun at', nowIso)
 
     return new Response(
@@ -163,14 +200,7 @@ export async function POST(req: Request) {
   }
 }
 
-async function callOpenAIForReminders(contextText: string, apiKey: string): Promise<RemindersPayload | null> {
-  // Use provided API key, fallback to environment variable
-  const effectiveApiKey = apiKey || process.env.OPENAI_API_KEY
-  if (!effectiveApiKey) {
-    log('OPENAI_API_KEY is not provided in request or environment. Cannot call OpenAI.')
-    return null
-  }
-
+function buildReminderPrompts(contextText: string): { systemPrompt: string; userPrompt: string } {
   const systemPrompt = `
 You are a strict JSON generator for OpenCoach.
 
@@ -211,6 +241,38 @@ ${contextText}
 Extract reminders according to the required JSON schema. Use the current time provided above as a reference when interpreting relative times in the CONTEXT.md file.
 `
 
+  return { systemPrompt, userPrompt }
+}
+
+function parseRemindersPayload(content: string): RemindersPayload | null {
+  let parsed: RemindersPayload
+  try {
+    parsed = JSON.parse(content) as RemindersPayload
+  } catch (err) {
+    log('Failed to parse JSON from the model response:', err)
+    log('Raw content:', content)
+    return null
+  }
+
+  if (!parsed || !Array.isArray(parsed.reminders)) {
+    log('Parsed JSON does not have expected "reminders" array:', parsed)
+    return null
+  }
+
+  log(`Extracted ${parsed.reminders.length} reminders from CONTEXT.md.`)
+  return parsed
+}
+
+async function callOpenAIForReminders(contextText: string, apiKey: string): Promise<RemindersPayload | null> {
+  // Use provided API key, fallback to environment variable
+  const effectiveApiKey = apiKey || process.env.OPENAI_API_KEY
+  if (!effectiveApiKey) {
+    log('OPENAI_API_KEY is not provided in request or environment. Cannot call OpenAI.')
+    return null
+  }
+
+  const { systemPrompt, userPrompt } = buildReminderPrompts(contextText)
+
   try {
     log('Calling OpenAI chat.completions for reminders extraction...')
 
@@ -244,26 +306,29 @@ Extract reminders according to the required JSON schema. Use the current time pr
       return null
     }
 
-    let parsed: RemindersPayload
-    try {
-      parsed = JSON.parse(content) as RemindersPayload
-    } catch (err) {
-      log('Failed to parse JSON from OpenAI response:', err)
-      log('Raw content:', content)
-      return null
-    }
-
-    if (!parsed || !Array.isArray(parsed.reminders)) {
-      log('Parsed JSON does not have expected "reminders" array:', parsed)
-      return null
-    }
-
-    log(`Extracted ${parsed.reminders.length} reminders from CONTEXT.md.`)
-    return parsed
+    return parseRemindersPayload(content)
   } catch (err) {
     log('Error while calling OpenAI:', err)
     return null
   }
 }
 
+// Extracts reminders with a model from lib/models.ts, e.g. a local model for local-only spaces
+async function callModelForReminders(modelId: string, contextText: string, apiKeys: ApiKeys): Promise<RemindersPayload | null> {
+  const { systemPrompt, userPrompt } = buildReminderPrompts(contextText)
+
+  try {
+    log(`Calling ${modelId} for reminders extraction...`)
+    const { text } = await generateText({
+      model: await getModel(modelId, apiKeys),
+      system: systemPrompt,
+      prompt: userPrompt,
+    })
 
+    // Local models often wrap JSON in a code block
+    return parseRemindersPayload(text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, ''))
+  } catch (err) {
+    log(`Error while calling ${modelId}:`, err)
+    return null
+  }
+}
@@ -0,0 +1,43 @@
+import { parseApiKeys } from '@/lib/credentials'
+import { createWeeklyReview } from '@/lib/review'
+
+function log(...args: any[]) {
+  const timestamp = new Date().toISOString()
+  console.log(`[ReviewAPI ${timestamp}]`, ...args)
+}
+
+// Generates the review of the last 7 days into reviews/YYYY-Www.md
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+    const calendarUrl = typeof body?.calendarUrl === 'string' ? body.calendarUrl.trim() : ''
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath is required' }, { status: 400 })
+    }
+
+    const result = await createWeeklyReview(notesFolderPath, {
+      modelId: typeof body?.model === 'string' && body.model ? body.model : undefined,
+      apiKeys: parseApiKeys(body),
+      calendarUrl,
+    })
+    if (!result.ok) {
+      return Response.json({ ok: false, error: result.error }, { status: result.status })
+    }
+
+    const { data } = result
+    log(`Wrote review ${data.week} for ${notesFolderPath} (${data.modifiedNotes.length} notes, ${data.meetings.length} meetings)`)
+    return Response.json({
+      ok: true,
+      week: data.week,
+      relativePath: result.relativePath,
+      content: result.content,
+      historyId: result.historyId,
+      calendarError: data.calendarError,
+    })
+  } catch (error) {
+    log('Error generating weekly review:', error)
+    return Response.json({ ok: false, error: 'Failed to generate the weekly review' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { readSpaceSettings, resolveSpacePath, validateSpaceSettings, writeSpaceSettings } from '@/lib/spaceSettings'
+
+// Spaces are the folders directly inside the notes folder root, named in the URL
+export async function GET(req: Request, { params }: { params: { name: string } }) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+
+    const spacePath = await resolveSpacePath(notesFolderPath, params.name)
+    if (!spacePath) {
+      return Response.json({ ok: false, error: `Space "${params.name}" not found` }, { status: 404 })
+    }
+
+    return Response.json({ ok: true, settings: await readSpaceSettings(spacePath) })
+  } catch (error) {
+    console.error('Error in space settings API:', error)
+    return Response.json({ ok: false, error: 'Failed to read space settings' }, { status: 500 })
+  }
+}
+
+// Replaces the settings of a space
+export async function PUT(req: Request, { params }: { params: { name: string } }) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath is required' }, { status: 400 })
+    }
+
+    const spacePath = await resolveSpacePath(notesFolderPath, params.name)
+    if (!spacePath) {
+      return Response.json({ ok: false, error: `Space "${params.name}" not found` }, { status: 404 })
+    }
+
+    const validation = await validateSpaceSettings(body?.settings)
+    if (!validation.ok) {
+      return Response.json({ ok: false, error: validation.error }, { status: 400 })
+    }
+
+    await writeSpaceSettings(spacePath, validation.settings)
+    return Response.json({ ok: true, settings: validation.settings })
+  } catch (error) {
+    console.error('Error in space settings API:', error)
+    return Response.json({ ok: false, error: 'Failed to save space settings' }, { status: 500 })
+  }
+}
@@ -1,5 +1,7 @@
 import { readdir, stat } from 'fs/promises'
 import { join } from 'path'
+import { loadIgnoreMatcher } from '@/lib/ignore'
+import { listNoteFiles } from '@/lib/notes'
 
 export async function POST(req: Request) {
   try {
@@ -13,7 +15,8 @@ export async function POST(req: Request) {
 
     try {
       const entries = await readdir(folderPath)
-      const spaces: Array<{ name: string; path: string }> = []
+      const matcher = await loadIgnoreMatcher(folderPath)
+      const spaces: Array<{ name: string; path: string; noteCount: number }> = []
 
       // Filter for directories only
       for (const entry of entries) {
@@ -24,11 +27,14 @@ export async function POST(req: Request) {
 
           // Only include directories (not files)
           if (stats.isDirectory()) {
-            // Skip hidden directories (starting with .)
-            if (!entry.startsWith('.')) {
+            // Skip hidden directories (starting with .) and ignored ones
+            if (!entry.startsWith('.') && !matcher.ignores(entry, true)) {
+              // Count notes in nested subfolders too, since the agent reads them recursively
+              const notes = await listNoteFiles(fullPath)
               spaces.push({
                 name: entry,
-                path: fullPath
+                path: fullPath,
+                noteCount: notes.length
               })
             }
           }
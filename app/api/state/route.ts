@@ -1,6 +1,7 @@
-import { readFile, writeFile } from 'fs/promises'
+import { readFile } from 'fs/promises'
 import fs from 'fs'
 import { join } from 'path'
+import { readState, withStateLock, writeState } from '@/lib/state'
 
 type StateFile = {
   reminders?: Array<{
@@ -63,25 +64,16 @@ export async function POST(req: Request) {
       })
     }
 
-    const statePath = join(notesFolderPath, 'state.json')
-
-    // Load existing state
-    let state: StateFile = {}
-    if (fs.existsSync(statePath)) {
-      try {
-        const raw = await readFile(statePath, 'utf-8')
-        state = raw.trim() ? (JSON.parse(raw) as StateFile) : {}
-      } catch (err) {
+    await withStateLock(notesFolderPath, async () => {
+      // Load existing state
+      const state: StateFile = await readState(notesFolderPath).catch(err => {
         console.error('Failed to read existing state:', err)
-        state = {}
-      }
-    }
-
-    // Merge updates into state
-    state = { ...state, ...updates }
+        return {}
+      })
 
-    // Write updated state
-    await writeFile(statePath, JSON.stringify(state, null, 2), 'utf-8')
+      // Merge updates into state and write it
+      await writeState(notesFolderPath, { ...state, ...updates })
+    })
 
     return new Response(JSON.stringify({ ok: true }), {
       status: 200,
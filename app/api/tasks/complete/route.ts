@@ -0,0 +1,28 @@
+import { completeTask } from '@/lib/tasks'
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const notesFolderPath = typeof body?.notesFolderPath === 'string' ? body.notesFolderPath.trim() : ''
+    const filePath = typeof body?.filePath === 'string' ? body.filePath : ''
+    const line = Number(body?.line)
+
+    if (!notesFolderPath || !filePath || !Number.isInteger(line) || line < 1) {
+      return Response.json({ ok: false, error: 'notesFolderPath, filePath and line are required' }, { status: 400 })
+    }
+
+    const result = await completeTask(
+      notesFolderPath,
+      { filePath, line, text: typeof body?.text === 'string' ? body.text : undefined },
+      body?.completed !== false,
+    )
+    if (!result.ok) {
+      return Response.json({ ok: false, error: result.error }, { status: result.status })
+    }
+
+    return Response.json({ ok: true, task: result.task, historyId: result.historyId })
+  } catch (error) {
+    console.error('Error completing task:', error)
+    return Response.json({ ok: false, error: 'Failed to complete task' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { filterTasks, readTasks, type TaskFilter } from '@/lib/tasks'
+
+const STATUSES = ['open', 'done', 'all']
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const notesFolderPath = searchParams.get('notesFolderPath')?.trim()
+    const status = searchParams.get('status') || 'open'
+
+    if (!notesFolderPath) {
+      return Response.json({ ok: false, error: 'notesFolderPath query parameter is required' }, { status: 400 })
+    }
+    if (!STATUSES.includes(status)) {
+      return Response.json({ ok: false, error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 })
+    }
+
+    const filter: TaskFilter = {
+      status: status as TaskFilter['status'],
+      due: searchParams.get('due') || undefined,
+      tag: searchParams.get('tag') || undefined,
+      file: searchParams.get('file') || undefined,
+    }
+    const tasks = filterTasks(await readTasks(notesFolderPath), filter)
+
+    return Response.json({ ok: true, tasks })
+  } catch (error) {
+    console.error('Error in tasks API:', error)
+    return Response.json({ ok: false, error: 'Failed to read tasks' }, { status: 500 })
+  }
+}
@@ -1,38 +1,124 @@
 'use client'
 
 import { useChat } from 'ai/react'
+import type { Message } from 'ai'
 import { useState, useEffect, useRef } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import Image from 'next/image'
-import { AVAILABLE_MODELS, DEFAULT_MODEL, type ModelConfig } from '@/lib/models'
+import { AVAILABLE_MODELS, DEFAULT_MODEL, getModelCapabilities, type ModelConfig } from '@/lib/models'
+import { formatModelSize } from '@/lib/ollama'
+import type { SpaceSettings } from '@/lib/spaceSettings'
+import { getCommandInfo, getCommandSuggestions, parseCommand } from '@/lib/commands'
 
 interface Space {
   name: string
   path: string
+  noteCount?: number
+}
+
+interface PendingChange {
+  id: string
+  createdAt: string
+  tool: string
+  action: string
+  relativePath: string
+  diff: string
+  notesFolderPath: string  // Folder of the space the change belongs to
+}
+
+interface HistoryEntry {
+  id: string
+  timestamp: string
+  tool: string
+  relativePath: string
+  revertedAt?: string
+  revertOf?: string  // Set on the entries that record an undo
+  notesFolderPath: string  // Folder of the space the edit belongs to
+}
+
+interface ConversationSummary {
+  id: string
+  title: string
+  model: string
+  updatedAt: string
+  messageCount: number
+}
+
+// Returns the names of the note files the server used to answer this message
+function getNotesUsed(message: Message): string[] {
+  const files: string[] = []
+  for (const annotation of message.annotations || []) {
+    if (annotation && typeof annotation === 'object' && !Array.isArray(annotation) && annotation.type === 'notes-used' && Array.isArray(annotation.files)) {
+      for (const file of annotation.files) {
+        if (typeof file === 'string') files.push(file.split(/[\\/]/).pop() || file)
+      }
+    }
+  }
+  return files
+}
+
+// Returns the model that answered this message, when the server reported it
+function getModelUsed(message: Message): { name: string; fallback: boolean } | null {
+  let modelUsed: { name: string; fallback: boolean } | null = null
+  for (const annotation of message.annotations || []) {
+    if (annotation && typeof annotation === 'object' && !Array.isArray(annotation) && annotation.type === 'model-used' && typeof annotation.name === 'string') {
+      modelUsed = { name: annotation.name, fallback: annotation.fallback === true }
+    }
+  }
+  return modelUsed
 }
 
 export default function Home() {
   const [notesFolderPath, setNotesFolderPath] = useState('')
   const [selectedSpace, setSelectedSpace] = useState<Space | null>(null)
   const [spaces, setSpaces] = useState<Space[]>([])
+  const [extraChatSpaces, setExtraChatSpaces] = useState<string[]>([])
   const [loadingSpaces, setLoadingSpaces] = useState(false)
   const [icalCalendarAddress, setIcalCalendarAddress] = useState('')
   const [selectedModel, setSelectedModel] = useState<string>(DEFAULT_MODEL)
+  // Built-in models until /api/models returns the merged list with the user's models.json
+  const [models, setModels] = useState<ModelConfig[]>(AVAILABLE_MODELS)
+  const [refreshingModels, setRefreshingModels] = useState(false)
   const [apiKeys, setApiKeys] = useState<Record<string, string>>({
     openai: '',
     anthropic: '',
     google: '',
     mistral: '',
   })
+  // Models tried in order when the selected model fails, unless the space has its own
+  const [fallback, setFallback] = useState<{ models: string[]; allowCloud: boolean }>({ models: [], allowCloud: false })
   const [showApiKey, setShowApiKey] = useState(false)
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'checking' | 'unsupported'>('checking')
+  const [lastEdit, setLastEdit] = useState<HistoryEntry | null>(null)
+  const [undoStatus, setUndoStatus] = useState<string | null>(null)
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([])
+  const [changeErrors, setChangeErrors] = useState<Record<string, string>>({})
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [persona, setPersona] = useState<{ name: string; source: string; tone?: string; method?: string } | null>(null)
+  const [spaceSettings, setSpaceSettings] = useState<SpaceSettings | null>(null)
+  const [spaceSettingsStatus, setSpaceSettingsStatus] = useState<string | null>(null)
+  const [commandRunning, setCommandRunning] = useState(false)
 
   // Compute the actual folder path to use for reading notes
   const actualNotesFolderPath = selectedSpace ? selectedSpace.path : notesFolderPath
 
+  // Spaces ticked in the sidebar are asked together with the selected space
+  const chatSpaces = [
+    ...(selectedSpace ? [selectedSpace] : []),
+    ...spaces.filter(space => extraChatSpaces.includes(space.name) && space.path !== selectedSpace?.path),
+  ]
+  const multiSpaceChat = chatSpaces.some(space => space.path !== selectedSpace?.path)
+
+  // Folders the agent can change: the selected space, or every space of a multi-space chat
+  const editableFolders = multiSpaceChat ? chatSpaces.map(space => space.path) : actualNotesFolderPath.trim() ? [actualNotesFolderPath.trim()] : []
+
   // Get the selected model configuration to determine provider
-  const selectedModelConfig = AVAILABLE_MODELS.find(m => m.id === selectedModel) || AVAILABLE_MODELS.find(m => m.id === DEFAULT_MODEL)
+  const selectedModelConfig = models.find(m => m.id === selectedModel) || models.find(m => m.id === DEFAULT_MODEL)
+
+  // Ollama and OpenAI-compatible servers don't use a key from the browser
+  const needsApiKey = selectedModelConfig?.provider !== 'ollama' && selectedModelConfig?.provider !== 'openai-compatible'
 
   // Determine the API key label and description based on the selected model's provider
   const getApiKeyInfo = () => {
@@ -68,6 +154,14 @@ export default function Home() {
           placeholder: 'Not needed for local models',
           description: 'Local Ollama models run on your machine and do not require an API key.'
         }
+      case 'openai-compatible':
+        return {
+          label: 'API Key (From models.json)',
+          placeholder: 'Set on the server',
+          description: selectedModelConfig?.apiKeyEnv
+            ? `This model reads its API key from the ${selectedModelConfig.apiKeyEnv} environment variable of the server.`
+            : 'This model is defined in models.json and does not use an API key.'
+        }
       default:
         return {
           label: 'API Key',
@@ -80,21 +174,394 @@ export default function Home() {
   const apiKeyInfo = getApiKeyInfo()
 
   // Get the current API key for the selected model's provider
-  const currentApiKey = selectedModelConfig?.provider ? apiKeys[selectedModelConfig.provider] || '' : ''
+  const currentApiKey = selectedModelConfig?.provider && needsApiKey ? apiKeys[selectedModelConfig.provider] || '' : ''
+
+  // Load the built-in models merged with the user's models.json and the models installed in Ollama
+  const refreshModels = async () => {
+    setRefreshingModels(true)
+    try {
+      const res = await fetch('/api/models')
+      const json = await res.json().catch(() => null)
+      if (res.ok && json?.ok && Array.isArray(json.models)) {
+        setModels(json.models)
+        if (json.errors?.length > 0) {
+          console.warn('Skipped invalid models in models.json:', json.errors)
+        }
+      }
+    } catch (error) {
+      console.error('Error loading models:', error)
+    } finally {
+      setRefreshingModels(false)
+    }
+  }
 
-  const { messages, input, handleInputChange, handleSubmit, isLoading, error } = useChat({
+  // Load the most recent agent edit that can still be undone. Undos are journaled
+  // too, but skipped here so that the button moves on to the edit before.
+  const refreshLastEdit = async () => {
+    if (editableFolders.length === 0) {
+      setLastEdit(null)
+      return
+    }
+
+    try {
+      const latest = await Promise.all(editableFolders.map(async folder => {
+        const res = await fetch(`/api/history?notesFolderPath=${encodeURIComponent(folder)}&limit=20`)
+        const json = await res.json().catch(() => null)
+        const entry = json?.ok ? (json.entries as HistoryEntry[]).find(entry => !entry.revertedAt && !entry.revertOf) : undefined
+        return entry ? { ...entry, notesFolderPath: folder } : null
+      }))
+      const entries = latest.filter((entry): entry is HistoryEntry => entry !== null)
+      setLastEdit(entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0] || null)
+    } catch (error) {
+      console.error('Error loading edit history:', error)
+    }
+  }
+
+  const undoLastEdit = async () => {
+    if (!lastEdit) return
+
+    const revert = async (force: boolean) => {
+      const res = await fetch('/api/history/revert', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ notesFolderPath: lastEdit.notesFolderPath, id: lastEdit.id, force }),
+      })
+      return { status: res.status, json: await res.json().catch(() => null) }
+    }
+
+    try {
+      let result = await revert(false)
+      // The note was changed after the agent's edit, so ask before discarding those changes
+      if (result.status === 409 && window.confirm(`${result.json?.error}\n\nUndo anyway?`)) {
+        result = await revert(true)
+      }
+
+      setUndoStatus(result.json?.ok ? `Undid ${lastEdit.tool} on ${lastEdit.relativePath}` : `Undo failed: ${result.json?.error || 'unknown error'}`)
+    } catch (error) {
+      console.error('Error undoing last edit:', error)
+      setUndoStatus('Undo failed')
+    }
+
+    refreshLastEdit()
+  }
+
+  // Load agent edits that are waiting for approval (spaces with requireApproval in space.json)
+  const refreshPendingChanges = async () => {
+    if (editableFolders.length === 0) {
+      setPendingChanges([])
+      return
+    }
+
+    try {
+      const changes = await Promise.all(editableFolders.map(async folder => {
+        const res = await fetch(`/api/changes?notesFolderPath=${encodeURIComponent(folder)}`)
+        const json = await res.json().catch(() => null)
+        return json?.ok ? (json.changes || []).map((change: Omit<PendingChange, 'notesFolderPath'>) => ({ ...change, notesFolderPath: folder })) : []
+      }))
+      setPendingChanges(changes.flat())
+    } catch (error) {
+      console.error('Error loading pending changes:', error)
+    }
+  }
+
+  const resolvePendingChange = async (change: PendingChange, decision: 'apply' | 'reject') => {
+    const id = change.id
+    try {
+      const res = await fetch(`/api/changes/${encodeURIComponent(id)}/${decision}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ notesFolderPath: change.notesFolderPath }),
+      })
+      const json = await res.json().catch(() => null)
+
+      if (!json?.ok) {
+        setChangeErrors(prev => ({ ...prev, [id]: json?.error || `Failed to ${decision} change` }))
+        return
+      }
+    } catch (error) {
+      console.error(`Error trying to ${decision} change:`, error)
+      setChangeErrors(prev => ({ ...prev, [id]: `Failed to ${decision} change` }))
+      return
+    }
+
+    refreshPendingChanges()
+    refreshLastEdit()
+  }
+
+  // Load the saved conversations of the current notes folder or space
+  const refreshConversations = async () => {
+    if (!actualNotesFolderPath || !actualNotesFolderPath.trim()) {
+      setConversations([])
+      return
+    }
+
+    try {
+      const res = await fetch(`/api/conversations?notesFolderPath=${encodeURIComponent(actualNotesFolderPath.trim())}`)
+      const json = await res.json().catch(() => null)
+      if (json?.ok) {
+        setConversations(json.conversations || [])
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error)
+    }
+  }
+
+  // Load the coach persona of the current space (COACH.md or CONTEXT.md frontmatter)
+  const refreshPersona = async () => {
+    if (!actualNotesFolderPath || !actualNotesFolderPath.trim()) {
+      setPersona(null)
+      return
+    }
+
+    try {
+      const res = await fetch(`/api/persona?notesFolderPath=${encodeURIComponent(actualNotesFolderPath.trim())}`)
+      const json = await res.json().catch(() => null)
+      if (json?.ok) {
+        setPersona(json.persona)
+      }
+    } catch (error) {
+      console.error('Error loading coach persona:', error)
+    }
+  }
+
+  const { messages, setMessages, input, setInput, handleInputChange, handleSubmit, isLoading, error } = useChat({
     api: '/api/chat',
     body: {
-      notesFolderPath: actualNotesFolderPath,
+      // Multi-space chats send the notes folder that holds the spaces, and their names
+      notesFolderPath: multiSpaceChat ? notesFolderPath : actualNotesFolderPath,
+      ...(multiSpaceChat && { spaces: chatSpaces.map(space => space.name) }),
       calendarUrl: icalCalendarAddress,
       model: selectedModel,
-      openaiApiKey: currentApiKey,
+      apiKeys,
+      fallback,
+    },
+    onFinish: () => {
+      // The agent may have edited notes (or proposed edits) during this response
+      refreshLastEdit()
+      refreshPendingChanges()
     },
     onError: (error) => {
       console.error('Chat error:', error)
     },
   })
 
+  // The conversation whose facts have not been saved to MEMORY.md yet
+  const unextractedConversation = useRef<{ notesFolderPath: string; messages: Array<{ role: string; content: string }> } | null>(null)
+
+  // Extract long-term memory from the conversation that just ended. keepalive lets
+  // the request finish when the page is being closed.
+  const extractMemory = () => {
+    const conversation = unextractedConversation.current
+    unextractedConversation.current = null
+    if (!conversation) return
+
+    fetch('/api/memory/extract', {
+      method: 'POST',
+      keepalive: true,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        notesFolderPath: conversation.notesFolderPath,
+        messages: conversation.messages.slice(-30),
+        model: selectedModel,
+        apiKeys,
+      }),
+    }).catch(error => console.error('Error extracting memory:', error))
+  }
+
+  // Refresh the undoable edit, pending changes, conversations and persona when the notes folder or space changes
+  useEffect(() => {
+    extractMemory()
+    setUndoStatus(null)
+    // Conversations are stored per space, so the next save starts a new transcript
+    setConversationId(null)
+    refreshLastEdit()
+    refreshPendingChanges()
+    refreshConversations()
+    refreshPersona()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [actualNotesFolderPath])
+
+  // Undo and approvals cover every space the chat can change
+  useEffect(() => {
+    refreshLastEdit()
+    refreshPendingChanges()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editableFolders.join('\n')])
+
+  // Save the transcript once a response has finished streaming
+  const wasLoading = useRef(false)
+  useEffect(() => {
+    const finished = wasLoading.current && !isLoading
+    wasLoading.current = isLoading
+    if (!finished || messages.length === 0 || !actualNotesFolderPath.trim()) return
+
+    const saveConversation = async () => {
+      try {
+        const res = await fetch('/api/conversations', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            notesFolderPath: actualNotesFolderPath.trim(),
+            id: conversationId,
+            model: selectedModel,
+            messages: messages.map(message => ({
+              id: message.id,
+              role: message.role,
+              content: message.content,
+              createdAt: message.createdAt,
+              toolInvocations: message.toolInvocations,
+              annotations: message.annotations,
+            })),
+          }),
+        })
+        const json = await res.json().catch(() => null)
+        if (json?.ok) {
+          setConversationId(json.conversation.id)
+          refreshConversations()
+        }
+      } catch (error) {
+        console.error('Error saving conversation:', error)
+      }
+    }
+
+    saveConversation()
+    unextractedConversation.current = {
+      notesFolderPath: actualNotesFolderPath.trim(),
+      messages: messages.map(message => ({ role: message.role, content: message.content })),
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading])
+
+  // Closing the page also ends the conversation
+  useEffect(() => {
+    window.addEventListener('beforeunload', extractMemory)
+    return () => window.removeEventListener('beforeunload', extractMemory)
+  })
+
+  // Slash commands: prompt commands such as /plan are sent to the chat, the others run on /api/commands
+  const commandSuggestions = getCommandSuggestions(input)
+
+  const submitMessage = async (e: React.FormEvent<HTMLFormElement> | React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const command = parseCommand(input)
+    if (!command || getCommandInfo(command.name).kind === 'prompt') {
+      handleSubmit(e)
+      return
+    }
+
+    e.preventDefault()
+    const text = input.trim()
+    setInput('')
+    setCommandRunning(true)
+
+    let reply: string
+    try {
+      const res = await fetch('/api/commands', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          input: text,
+          notesFolderPath: notesFolderPath.trim(),
+          space: selectedSpace?.name,
+          calendarUrl: icalCalendarAddress,
+          model: selectedModel,
+          apiKeys,
+        }),
+      })
+      const json = await res.json().catch(() => null)
+      reply = json?.ok ? json.reply : json?.error || 'The command failed.'
+
+      if (json?.action?.type === 'space') {
+        setSelectedSpace(spaces.find(space => space.path === json.action.space.path) || json.action.space)
+      } else if (json?.action?.type === 'model') {
+        setSelectedModel(json.action.modelId)
+      }
+    } catch (error) {
+      console.error('Error running command:', error)
+      reply = 'The command failed.'
+    }
+
+    setMessages([
+      ...messages,
+      { id: `command-${Date.now()}`, role: 'user', content: text, createdAt: new Date() },
+      { id: `command-${Date.now()}-reply`, role: 'assistant', content: reply, createdAt: new Date() },
+    ])
+    setCommandRunning(false)
+    refreshLastEdit()
+    refreshPendingChanges()
+  }
+
+  const startNewConversation = () => {
+    extractMemory()
+    setConversationId(null)
+    setMessages([])
+  }
+
+  const openConversation = async (id: string) => {
+    try {
+      const res = await fetch(`/api/conversations/${encodeURIComponent(id)}?notesFolderPath=${encodeURIComponent(actualNotesFolderPath.trim())}`)
+      const json = await res.json().catch(() => null)
+      if (!json?.ok) {
+        console.error('Failed to load conversation:', json?.error)
+        return
+      }
+
+      extractMemory()
+      setMessages((json.conversation.messages as Message[]).map(message => ({
+        ...message,
+        createdAt: message.createdAt ? new Date(message.createdAt) : undefined,
+      })))
+      setConversationId(json.conversation.id)
+    } catch (error) {
+      console.error('Error loading conversation:', error)
+    }
+  }
+
+  const renameConversation = async (conversation: ConversationSummary) => {
+    const title = window.prompt('Rename conversation', conversation.title)
+    if (!title || !title.trim() || title.trim() === conversation.title) return
+
+    try {
+      await fetch(`/api/conversations/${encodeURIComponent(conversation.id)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ notesFolderPath: actualNotesFolderPath.trim(), title }),
+      })
+    } catch (error) {
+      console.error('Error renaming conversation:', error)
+    }
+    refreshConversations()
+  }
+
+  const deleteConversation = async (conversation: ConversationSummary) => {
+    if (!window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return
+
+    try {
+      await fetch(`/api/conversations/${encodeURIComponent(conversation.id)}?notesFolderPath=${encodeURIComponent(actualNotesFolderPath.trim())}`, {
+        method: 'DELETE',
+      })
+    } catch (error) {
+      console.error('Error deleting conversation:', error)
+    }
+    if (conversation.id === conversationId) {
+      // A deleted conversation should not end up in memory
+      unextractedConversation.current = null
+      startNewConversation()
+    }
+    refreshConversations()
+  }
+
   // Load initial state from local storage on mount
   useEffect(() => {
     const localIcalAddress = localStorage.getItem('icalCalendarAddress')
@@ -102,6 +569,7 @@ export default function Home() {
     const localSelectedModel = localStorage.getItem('selectedModel')
     const localSelectedSpace = localStorage.getItem('selectedSpace')
     const localApiKeys = localStorage.getItem('apiKeys')
+    const localFallback = localStorage.getItem('fallback')
 
     if (localIcalAddress) {
       setIcalCalendarAddress(localIcalAddress)
@@ -126,6 +594,19 @@ export default function Home() {
         console.error('Error parsing API keys from localStorage:', error)
       }
     }
+    if (localFallback) {
+      try {
+        setFallback(JSON.parse(localFallback))
+      } catch (error) {
+        console.error('Error parsing fallback models from localStorage:', error)
+      }
+    }
+  }, [])
+
+  // Load the models on mount
+  useEffect(() => {
+    refreshModels()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
   // Load spaces when notes folder path changes
@@ -164,6 +645,56 @@ export default function Home() {
     loadSpaces()
   }, [notesFolderPath])
 
+  // Load the settings of the selected space (space.json) and switch to its default model
+  useEffect(() => {
+    setSpaceSettings(null)
+    setSpaceSettingsStatus(null)
+    if (!selectedSpace || !notesFolderPath.trim()) return
+
+    const loadSpaceSettings = async () => {
+      try {
+        const res = await fetch(`/api/spaces/${encodeURIComponent(selectedSpace.name)}/settings?notesFolderPath=${encodeURIComponent(notesFolderPath.trim())}`)
+        const json = await res.json().catch(() => null)
+        if (!json?.ok) {
+          console.error('Error loading space settings:', json?.error)
+          return
+        }
+        setSpaceSettings(json.settings)
+        if (json.settings.defaultModel) {
+          setSelectedModel(json.settings.defaultModel)
+        }
+      } catch (error) {
+        console.error('Error loading space settings:', error)
+      }
+    }
+
+    loadSpaceSettings()
+  }, [selectedSpace, notesFolderPath])
+
+  const saveSpaceSettings = async () => {
+    if (!selectedSpace || !spaceSettings) return
+
+    try {
+      const res = await fetch(`/api/spaces/${encodeURIComponent(selectedSpace.name)}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ notesFolderPath: notesFolderPath.trim(), settings: spaceSettings }),
+      })
+      const json = await res.json().catch(() => null)
+      if (json?.ok) {
+        setSpaceSettings(json.settings)
+        setSpaceSettingsStatus('Saved')
+      } else {
+        setSpaceSettingsStatus(json?.error || 'Failed to save the settings')
+      }
+    } catch (error) {
+      console.error('Error saving space settings:', error)
+      setSpaceSettingsStatus('Failed to save the settings')
+    }
+  }
+
   // Save selected space to local storage when it changes
   useEffect(() => {
     if (!selectedSpace) {
@@ -208,6 +739,16 @@ export default function Home() {
     localStorage.setItem('apiKeys', JSON.stringify(apiKeys))
   }, [apiKeys])
 
+  // Save fallback models to local storage when they change
+  const isInitialMountFallback = useRef(true)
+  useEffect(() => {
+    if (isInitialMountFallback.current) {
+      isInitialMountFallback.current = false
+      return
+    }
+    localStorage.setItem('fallback', JSON.stringify(fallback))
+  }, [fallback])
+
   // Check notification permission on mount
   useEffect(() => {
     // Check if notifications are supported
@@ -253,7 +794,7 @@ export default function Home() {
           },
           body: JSON.stringify({
             notesFolderPath: folder,
-            openaiApiKey: apiKeys.openai,
+            apiKeys,
           }),
         })
         const json = await res.json().catch(() => null)
@@ -273,7 +814,7 @@ export default function Home() {
       console.log('[RemindersClient] Stopping polling for folder:', folder)
       clearInterval(intervalId)
     }
-  }, [actualNotesFolderPath, apiKeys.openai])
+  }, [actualNotesFolderPath, apiKeys])
 
   // Check for due reminders every 10 seconds and fire notifications
   useEffect(() => {
@@ -383,7 +924,7 @@ export default function Home() {
                 },
                 body: JSON.stringify({
                   notesFolderPath: notesFolderPathFromState,
-                  openaiApiKey: apiKeys.openai,
+                  apiKeys,
                 }),
               })
               const recalcJson = await recalcRes.json().catch(() => null)
@@ -410,16 +951,80 @@ export default function Home() {
       console.log('[RemindersCheck] Stopping reminder check polling')
       clearInterval(intervalId)
     }
-  }, [notificationPermission, apiKeys.openai, actualNotesFolderPath])
+  }, [notificationPermission, apiKeys, actualNotesFolderPath])
+
+  // Check every minute whether the morning briefing of the space is due (briefingTime in space.json).
+  // The server writes it to the daily note and only returns it once per day.
+  useEffect(() => {
+    if (!actualNotesFolderPath || !actualNotesFolderPath.trim()) {
+      return
+    }
+
+    const folder = actualNotesFolderPath.trim()
+
+    const checkBriefing = async () => {
+      try {
+        const res = await fetch('/api/briefing', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ notesFolderPath: folder, calendarUrl: icalCalendarAddress }),
+        })
+        const json = await res.json().catch(() => null)
+        if (!json?.ok || !json.briefing) return
+
+        const briefing = json.briefing as { date: string; content: string; summary: string }
+        if (!json.resent) {
+          console.log('[Briefing] Morning briefing written to', json.briefing.relativePath)
+          refreshLastEdit()
+        }
+
+        // Without a notification the server keeps the briefing and sends it again on the next check
+        if (typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'granted') {
+          const notification = new Notification('OpenCoach: Morning briefing', {
+            body: briefing.summary || 'Your briefing for today is ready.',
+            requireInteraction: true,
+          })
+
+          // Open a new chat that starts with the briefing, so the user can plan the day from it
+          notification.onclick = () => {
+            window.focus()
+            notification.close()
+            startNewConversation()
+            setMessages([{ id: `briefing-${briefing.date}`, role: 'assistant', content: briefing.content, createdAt: new Date() }])
+          }
+
+          await fetch('/api/briefing', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ notesFolderPath: folder, delivered: briefing.date }),
+          })
+        }
+      } catch (error) {
+        console.error('[Briefing] Error checking morning briefing:', error)
+      }
+    }
+
+    checkBriefing()
+    const intervalId = setInterval(checkBriefing, 60_000)
+
+    return () => clearInterval(intervalId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [actualNotesFolderPath, icalCalendarAddress])
 
   return (
     <div className="min-h-screen flex bg-gradient-to-b from-slate-50 to-white">
-      {/* Sidebar for Spaces */}
-      {spaces.length > 0 && (
+      {/* Sidebar for Spaces and Conversations */}
+      {(spaces.length > 0 || actualNotesFolderPath.trim()) && (
         <aside className="w-64 border-r border-slate-200 bg-white flex flex-col">
+          {spaces.length > 0 && (
+          <>
           <div className="p-4 border-b border-slate-200">
             <h2 className="text-sm font-semibold text-slate-800">Spaces</h2>
-            <p className="text-xs text-slate-500 mt-1">Select a space to work in</p>
+            <p className="text-xs text-slate-500 mt-1">Select a space to work in, tick others to ask across them</p>
           </div>
           <div className="flex-1 overflow-y-auto p-2">
             {loadingSpaces ? (
@@ -428,19 +1033,81 @@ export default function Home() {
               </div>
             ) : (
               spaces.map((space) => (
-                <button
-                  key={space.path}
-                  onClick={() => setSelectedSpace(space)}
-                  className={`w-full text-left px-3 py-2 rounded-lg mb-1 transition-colors duration-150 ${selectedSpace?.path === space.path
+                <div key={space.path} className="flex items-center gap-1 mb-1">
+                  <button
+                    onClick={() => setSelectedSpace(space)}
+                    className={`flex-1 min-w-0 text-left px-3 py-2 rounded-lg transition-colors duration-150 ${selectedSpace?.path === space.path
+                        ? 'bg-blue-100 text-blue-800 font-medium'
+                        : 'text-slate-700 hover:bg-slate-100'
+                      }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg">📂</span>
+                      <span className="text-sm truncate flex-1">{space.name}</span>
+                      {typeof space.noteCount === 'number' && (
+                        <span className="text-xs text-slate-400">{space.noteCount}</span>
+                      )}
+                    </div>
+                  </button>
+                  <input
+                    type="checkbox"
+                    title={`Also ask ${space.name} in this chat`}
+                    checked={selectedSpace?.path === space.path || extraChatSpaces.includes(space.name)}
+                    disabled={selectedSpace?.path === space.path}
+                    onChange={(e) => setExtraChatSpaces(prev => e.target.checked ? [...prev, space.name] : prev.filter(name => name !== space.name))}
+                    className="rounded border-slate-300"
+                  />
+                </div>
+              ))
+            )}
+          </div>
+          </>
+          )}
+
+          <div className="p-4 border-t border-b border-slate-200 flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-slate-800">Conversations</h2>
+            <button
+              onClick={startNewConversation}
+              className="px-2 py-1 text-xs text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-100 transition-colors duration-150"
+            >
+              + New chat
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2">
+            {conversations.length === 0 ? (
+              <p className="text-xs text-slate-500 px-3 py-2">No saved conversations yet</p>
+            ) : (
+              conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className={`group flex items-center gap-1 rounded-lg mb-1 transition-colors duration-150 ${conversation.id === conversationId
                       ? 'bg-blue-100 text-blue-800 font-medium'
                       : 'text-slate-700 hover:bg-slate-100'
                     }`}
                 >
-                  <div className="flex items-center gap-2">
-                    <span className="text-lg">📂</span>
-                    <span className="text-sm truncate">{space.name}</span>
-                  </div>
-                </button>
+                  <button
+                    onClick={() => openConversation(conversation.id)}
+                    disabled={isLoading}
+                    title={`${conversation.messageCount} messages, ${new Date(conversation.updatedAt).toLocaleString()}`}
+                    className="flex-1 min-w-0 text-left px-3 py-2"
+                  >
+                    <span className="block text-sm truncate">{conversation.title}</span>
+                  </button>
+                  <button
+                    onClick={() => renameConversation(conversation)}
+                    title="Rename"
+                    className="hidden group-hover:block text-xs px-1"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    onClick={() => deleteConversation(conversation)}
+                    title="Delete"
+                    className="hidden group-hover:block text-xs px-1 mr-1"
+                  >
+                    🗑
+                  </button>
+                </div>
               ))
             )}
           </div>
@@ -461,6 +1128,38 @@ export default function Home() {
                   <span className="text-xl bg-gradient-to-r from-gray-800 via-black to-gray-900 bg-clip-text text-transparent">open</span>
                   <span className="bg-gradient-to-r from-gray-800 via-black to-gray-900 bg-clip-text text-transparent"> Coach</span>
                 </h1>
+                {actualNotesFolderPath.trim() && (
+                  <span
+                    title={persona
+                      ? [`Persona from ${persona.source}`, persona.tone && `Tone: ${persona.tone}`, persona.method && `Method: ${persona.method}`].filter(Boolean).join('\n')
+                      : 'Default coach. Add a COACH.md to this space to change the persona.'}
+                    className="px-2.5 py-1 text-xs text-slate-600 bg-slate-100 border border-slate-200 rounded-full"
+                  >
+                    {persona ? `${persona.name}${persona.method ? ` · ${persona.method}` : ''}` : 'Default coach'}
+                  </span>
+                )}
+                {multiSpaceChat && (
+                  <span
+                    title={`Asking across ${chatSpaces.map(space => space.name).join(', ')}`}
+                    className="px-2.5 py-1 text-xs text-blue-700 bg-blue-50 border border-blue-200 rounded-full"
+                  >
+                    {chatSpaces.length} spaces
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                {undoStatus && (
+                  <span className="text-xs text-slate-500">{undoStatus}</span>
+                )}
+                {lastEdit && (
+                  <button
+                    onClick={undoLastEdit}
+                    title={`Undo ${lastEdit.tool} on ${lastEdit.relativePath} (${new Date(lastEdit.timestamp).toLocaleString()})`}
+                    className="px-3 py-1.5 text-sm text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-100 transition-colors duration-150"
+                  >
+                    ↶ Undo last change
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -513,29 +1212,186 @@ export default function Home() {
                 <p className="text-xs text-slate-500 mt-2">
                   Enter your iCal/ICS calendar. You can find it under Google Calendar settings page as a private iCal URL
                 </p>
+                {spaceSettings?.calendarUrls && spaceSettings.calendarUrls.length > 0 && (
+                  <p className="text-xs text-amber-600 mt-1">
+                    The space {selectedSpace?.name} uses its own calendars, set in its space settings below.
+                  </p>
+                )}
               </div>
 
               {/* Model Selection */}
               <div className="bg-white rounded-xl border border-slate-200 p-5 shadow-sm">
-                <label className="block text-sm font-semibold text-slate-800 mb-3">
-                  AI Model
-                </label>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-semibold text-slate-800">
+                    AI Model
+                  </label>
+                  <button
+                    type="button"
+                    onClick={refreshModels}
+                    disabled={refreshingModels}
+                    className="text-xs text-blue-600 hover:text-blue-700 disabled:text-slate-400"
+                  >
+                    {refreshingModels ? 'Refreshing…' : 'Refresh'}
+                  </button>
+                </div>
                 <select
                   value={selectedModel}
                   onChange={(e) => setSelectedModel(e.target.value)}
                   className="w-full px-4 py-2.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all duration-200 bg-white"
                 >
-                  {AVAILABLE_MODELS.map((model) => (
-                    <option key={model.id} value={model.id}>
-                      {model.name}
+                  {models.map((model) => (
+                    <option key={model.id} value={model.id} disabled={(spaceSettings?.localOnly && !model.isLocal) || model.available === false}>
+                      {model.name}{model.available === false ? ' (unavailable)' : ''}
                     </option>
                   ))}
                 </select>
+                {selectedModelConfig?.available === false && (
+                  <p className="text-xs text-amber-700 mt-2">{selectedModelConfig.unavailableReason}</p>
+                )}
+                {selectedModelConfig && !getModelCapabilities(selectedModelConfig).tools && (
+                  <p className="text-xs text-slate-500 mt-2">
+                    Text-only: this model can't use tools, so it answers from your notes but can't edit them, complete tasks or create calendar events.
+                  </p>
+                )}
+                {selectedModelConfig?.details && (
+                  <p className="text-xs text-slate-500 mt-2">
+                    {[
+                      selectedModelConfig.details.family,
+                      selectedModelConfig.details.parameterSize,
+                      selectedModelConfig.details.quantization,
+                      selectedModelConfig.details.sizeBytes && formatModelSize(selectedModelConfig.details.sizeBytes),
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                )}
                 <p className="text-xs text-slate-500 mt-2">
                   Select the AI model to use for conversations. Make sure you have the appropriate API keys configured.
+                  {spaceSettings?.localOnly && ' This space is local-only, so only local models can be used.'}
+                </p>
+                <label className="block text-xs font-medium text-slate-700 mt-3">
+                  Fallback models (one model id per line)
+                  <textarea
+                    value={fallback.models.join('\n')}
+                    onChange={(e) => setFallback({ ...fallback, models: e.target.value.split('\n') })}
+                    rows={2}
+                    placeholder="ollama-mistral"
+                    className="mt-1 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg outline-none"
+                  />
+                </label>
+                <label className="flex items-center gap-1.5 text-xs text-slate-700 mt-2">
+                  <input
+                    type="checkbox"
+                    checked={fallback.allowCloud}
+                    onChange={(e) => setFallback({ ...fallback, allowCloud: e.target.checked })}
+                  />
+                  Allow local models to fall back to cloud models
+                </label>
+                <p className="text-xs text-slate-500 mt-2">
+                  Tried in order when the selected model fails, unless the space has its own fallback models.
                 </p>
               </div>
 
+              {/* Space Settings (space.json) */}
+              {selectedSpace && spaceSettings && (
+                <div className="bg-white rounded-xl border border-slate-200 p-5 shadow-sm space-y-3">
+                  <h3 className="text-sm font-semibold text-slate-800">Space settings: {selectedSpace.name}</h3>
+                  <label className="block text-xs font-medium text-slate-700">
+                    Default model
+                    <select
+                      value={spaceSettings.defaultModel || ''}
+                      onChange={(e) => setSpaceSettings({ ...spaceSettings, defaultModel: e.target.value || undefined })}
+                      className="mt-1 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg outline-none bg-white"
+                    >
+                      <option value="">Keep the selected model</option>
+                      {models.map((model) => (
+                        <option key={model.id} value={model.id} disabled={spaceSettings.localOnly && !model.isLocal}>
+                          {model.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block text-xs font-medium text-slate-700">
+                    Fallback models (one model id per line)
+                    <textarea
+                      value={(spaceSettings.fallbackModels || []).join('\n')}
+                      onChange={(e) => setSpaceSettings({ ...spaceSettings, fallbackModels: e.target.value.split('\n') })}
+                      rows={2}
+                      placeholder="Uses the fallback models above when empty"
+                      className="mt-1 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg outline-none"
+                    />
+                  </label>
+                  <label className="block text-xs font-medium text-slate-700">
+                    Calendars (one iCal URL per line)
+                    <textarea
+                      value={(spaceSettings.calendarUrls || []).join('\n')}
+                      onChange={(e) => setSpaceSettings({ ...spaceSettings, calendarUrls: e.target.value.split('\n') })}
+                      rows={2}
+                      placeholder="Uses the calendar address above when empty"
+                      className="mt-1 w-full px-3 py-2 text-sm border border-slate-300 rounded-lg outline-none"
+                    />
+                  </label>
+                  <label className="block text-xs font-medium text-slate-700">
+                    Morning briefing time
+                    <input
+                      type="time"
+                      value={spaceSettings.briefingTime || ''}
+                      onChange={(e) => setSpaceSettings({ ...spaceSettings, briefingTime: e.target.value || undefined })}
+                      className="mt-1 block px-3 py-2 text-sm border border-slate-300 rounded-lg outline-none"
+                    />
+                  </label>
+                  <div className="flex flex-wrap gap-x-5 gap-y-2 text-xs text-slate-700">
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={!!spaceSettings.localOnly}
+                        onChange={(e) => setSpaceSettings({ ...spaceSettings, localOnly: e.target.checked })}
+                      />
+                      Local models only
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={!!spaceSettings.allowCloudFallback}
+                        onChange={(e) => setSpaceSettings({ ...spaceSettings, allowCloudFallback: e.target.checked })}
+                      />
+                      Cloud fallback
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={spaceSettings.reminders?.enabled !== false}
+                        onChange={(e) => setSpaceSettings({ ...spaceSettings, reminders: { ...spaceSettings.reminders, enabled: e.target.checked } })}
+                      />
+                      Reminders from CONTEXT.md
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={!!spaceSettings.requireApproval}
+                        onChange={(e) => setSpaceSettings({ ...spaceSettings, requireApproval: e.target.checked })}
+                      />
+                      Approve edits
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={!!spaceSettings.allowOverwrite}
+                        onChange={(e) => setSpaceSettings({ ...spaceSettings, allowOverwrite: e.target.checked })}
+                      />
+                      Allow overwriting notes
+                    </label>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={saveSpaceSettings}
+                      className="px-3 py-1.5 text-sm text-white bg-slate-800 rounded-lg hover:bg-slate-700 transition-colors duration-150"
+                    >
+                      Save space settings
+                    </button>
+                    {spaceSettingsStatus && <span className="text-xs text-slate-500">{spaceSettingsStatus}</span>}
+                  </div>
+                </div>
+              )}
+
               {/* API Key - Dynamic based on selected model */}
               <div className="bg-white rounded-xl border border-slate-200 p-5 shadow-sm">
                 <label className="block text-sm font-semibold text-slate-800 mb-3">
@@ -547,16 +1403,16 @@ export default function Home() {
                     value={currentApiKey}
                     onChange={(e) => {
                       const provider = selectedModelConfig?.provider
-                      if (provider && provider !== 'ollama') {
+                      if (provider && needsApiKey) {
                         setApiKeys(prev => ({ ...prev, [provider]: e.target.value }))
                       }
                     }}
                     placeholder={apiKeyInfo.placeholder}
-                    disabled={selectedModelConfig?.provider === 'ollama'}
-                    className={`w-full px-4 py-2.5 pr-12 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all duration-200 ${selectedModelConfig?.provider === 'ollama' ? 'bg-slate-100 cursor-not-allowed' : ''
+                    disabled={!needsApiKey}
+                    className={`w-full px-4 py-2.5 pr-12 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all duration-200 ${!needsApiKey ? 'bg-slate-100 cursor-not-allowed' : ''
                       }`}
                   />
-                  {selectedModelConfig?.provider !== 'ollama' && (
+                  {needsApiKey && (
                     <button
                       type="button"
                       onClick={() => setShowApiKey(!showApiKey)}
@@ -829,6 +1685,16 @@ export default function Home() {
                         </div>
                       )}
                     </div>
+                    {message.role === 'assistant' && getNotesUsed(message).length > 0 && (
+                      <p className="text-xs text-slate-400 mt-1.5 px-1">
+                        📝 Sources: {getNotesUsed(message).join(', ')}
+                      </p>
+                    )}
+                    {message.role === 'assistant' && getModelUsed(message)?.fallback && (
+                      <p className="text-xs text-amber-600 mt-1.5 px-1">
+                        Answered by {getModelUsed(message)?.name} (fallback)
+                      </p>
+                    )}
                   </div>
 
                   {message.role === 'user' && (
@@ -857,6 +1723,50 @@ export default function Home() {
               </div>
             )}
 
+            {pendingChanges.map((change) => (
+              <div key={change.id} className="bg-amber-50 border border-amber-200 rounded-2xl shadow-sm p-4">
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <div className="text-sm text-amber-900">
+                    <span className="font-medium">Proposed change</span> to <span className="font-mono">{change.relativePath}</span>
+                    {multiSpaceChat && (
+                      <span className="ml-1">in {chatSpaces.find(space => space.path === change.notesFolderPath)?.name}</span>
+                    )}
+                    <span className="text-xs text-amber-700 ml-2">({change.tool} · {change.action})</span>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => resolvePendingChange(change, 'apply')}
+                      className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-sm font-medium rounded-lg transition-colors duration-200 shadow-sm"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => resolvePendingChange(change, 'reject')}
+                      className="px-3 py-1.5 bg-white hover:bg-slate-100 text-slate-700 text-sm font-medium border border-slate-300 rounded-lg transition-colors duration-200"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </div>
+                <pre className="text-xs bg-white border border-amber-100 rounded-lg p-3 overflow-x-auto">
+                  {change.diff.split('\n').map((line, index) => (
+                    <div
+                      key={index}
+                      className={line.startsWith('+') && !line.startsWith('+++') ? 'text-green-700'
+                        : line.startsWith('-') && !line.startsWith('---') ? 'text-red-700'
+                          : line.startsWith('@@') ? 'text-slate-400'
+                            : 'text-slate-700'}
+                    >
+                      {line || ' '}
+                    </div>
+                  ))}
+                </pre>
+                {changeErrors[change.id] && (
+                  <p className="text-xs text-red-700 mt-2">{changeErrors[change.id]}</p>
+                )}
+              </div>
+            ))}
+
             {error && (
               <div className="flex gap-4 justify-start">
                 <div className="rounded-lg shadow-md flex items-center justify-center bg-white flex-shrink-0 p-0.5">
@@ -881,29 +1791,50 @@ export default function Home() {
         {/* Input Form */}
         <div className="sticky bottom-0 bg-gradient-to-t from-white via-white to-transparent pt-6 pb-6">
           <div className="max-w-4xl mx-auto w-full px-4 sm:px-6 lg:px-8">
-            <form onSubmit={handleSubmit} className="relative">
+            <form onSubmit={submitMessage} className="relative">
+              {commandSuggestions.length > 0 && (
+                <div className="absolute bottom-full mb-2 left-0 right-0 bg-white rounded-xl shadow-lg border border-slate-200 py-1">
+                  {commandSuggestions.map((command) => (
+                    <button
+                      key={command.name}
+                      type="button"
+                      onClick={() => setInput(`/${command.name} `)}
+                      className="w-full text-left px-4 py-2 hover:bg-slate-100 transition-colors duration-150"
+                    >
+                      <span className="text-sm font-mono text-slate-800">{command.usage}</span>
+                      <span className="text-xs text-slate-500 ml-3">{command.description}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="flex items-end gap-3 bg-white rounded-2xl shadow-lg border border-slate-200 p-2 focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-all duration-200">
                 <textarea
                   value={input}
                   onChange={handleInputChange}
                   onKeyDown={(e) => {
+                    // Tab completes the first matching slash command
+                    if (e.key === 'Tab' && commandSuggestions.length > 0) {
+                      e.preventDefault()
+                      setInput(`/${commandSuggestions[0].name} `)
+                      return
+                    }
                     if (e.key === 'Enter' && !e.shiftKey) {
                       e.preventDefault()
-                      handleSubmit(e)
+                      submitMessage(e)
                     }
                   }}
-                  placeholder="Message OpenCoach..."
-                  disabled={isLoading}
+                  placeholder="Message OpenCoach, or type / for commands..."
+                  disabled={isLoading || commandRunning}
                   rows={1}
                   className="flex-1 px-4 py-3 bg-transparent resize-none outline-none text-slate-800 placeholder-slate-400 max-h-40 overflow-y-auto"
                   style={{ minHeight: '24px' }}
                 />
                 <button
                   type="submit"
-                  disabled={isLoading || !input.trim()}
+                  disabled={isLoading || commandRunning || !input.trim()}
                   className={`
                   p-3 rounded-xl font-medium transition-all duration-200 flex-shrink-0
-                  ${isLoading || !input.trim()
+                  ${isLoading || commandRunning || !input.trim()
                       ? 'bg-slate-200 text-slate-400 cursor-not-allowed'
                       : 'bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-md hover:shadow-lg'
                     }
@@ -915,7 +1846,7 @@ export default function Home() {
                 </button>
               </div>
               <p className="text-xs text-slate-400 mt-2 text-center">
-                Press Enter to send, Shift+Enter for new line
+                Press Enter to send, Shift+Enter for new line, /help for commands
               </p>
             </form>
           </div>
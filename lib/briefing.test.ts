@@ -0,0 +1,52 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { markBriefingDelivered, runScheduledBriefing } from '@/lib/briefing'
+import { readState } from '@/lib/state'
+
+describe('runScheduledBriefing', () => {
+  const now = new Date(2026, 9, 19, 8, 30)
+  let notesFolder: string
+
+  beforeEach(async () => {
+    notesFolder = await mkdtemp(join(tmpdir(), 'opencoach-briefing-'))
+    await writeFile(join(notesFolder, 'space.json'), JSON.stringify({ briefingTime: '07:00' }), 'utf-8')
+  })
+
+  afterEach(async () => {
+    await rm(notesFolder, { recursive: true, force: true })
+  })
+
+  it('waits for the briefing time', async () => {
+    expect(await runScheduledBriefing(notesFolder, { now: new Date(2026, 9, 19, 6, 59) })).toEqual({ sent: false, skipped: 'not-yet' })
+  })
+
+  it('writes the briefing once when several checks run at the same time', async () => {
+    const runs = await Promise.all([runScheduledBriefing(notesFolder, { now }), runScheduledBriefing(notesFolder, { now })])
+
+    expect(runs.filter(run => run.sent)).toHaveLength(1)
+    expect(runs.find(run => !run.sent)).toEqual({ sent: false, skipped: 'already-sent' })
+    expect((await readState(notesFolder)).lastBriefingDate).toBe('2026-10-19')
+  })
+
+  it('sends the briefing again until it is marked as delivered', async () => {
+    const first = await runScheduledBriefing(notesFolder, { now })
+    expect(first).toMatchObject({ sent: true, resent: false })
+
+    const second = await runScheduledBriefing(notesFolder, { now })
+    expect(second).toMatchObject({ sent: true, resent: true })
+    expect(second.sent && first.sent && second.briefing).toEqual(first.sent && first.briefing)
+
+    await markBriefingDelivered(notesFolder, '2026-10-19')
+    expect(await runScheduledBriefing(notesFolder, { now })).toEqual({ sent: false, skipped: 'already-sent' })
+  })
+
+  it('keeps the rest of state.json when claiming the day', async () => {
+    await writeFile(join(notesFolder, 'state.json'), JSON.stringify({ reminders: [] }), 'utf-8')
+
+    await runScheduledBriefing(notesFolder, { now })
+
+    expect(await readState(notesFolder)).toMatchObject({ reminders: [], lastBriefingDate: '2026-10-19' })
+  })
+})
@@ -0,0 +1,212 @@
+// Morning briefing
+// At the `briefingTime` set in space.json, a summary of the day (calendar,
+// due and overdue tasks, today's reminders, top goals) is appended to today's
+// daily note. state.json records the last briefing date, so a restart or a
+// second open tab does not send it again, and keeps the briefing until the UI
+// has shown its notification.
+
+import { readFile } from 'fs/promises'
+import { fetchCalendarEventsBetween, formatCalendarSummary } from '@/lib/calendar'
+import { findDailyNotePath } from '@/lib/dailyNotes'
+import { addDays, localDateString, parseLocalDate } from '@/lib/dates'
+import { readGoals } from '@/lib/goals'
+import { writeNoteWithHistory } from '@/lib/history'
+import { readNotesFromFolder } from '@/lib/notes'
+import { resolveSandboxedPath } from '@/lib/sandbox'
+import { readSpaceSettings, getSpaceCalendarUrls } from '@/lib/spaceSettings'
+import { readState, withStateLock, writeState } from '@/lib/state'
+import { filterTasks, parseTasks, type Task } from '@/lib/tasks'
+
+export const BRIEFING_HEADING = '## Morning briefing'
+
+const MAX_BRIEFING_EVENTS = 10
+const MAX_BRIEFING_TASKS = 10
+const MAX_BRIEFING_GOALS = 3
+
+export interface Briefing {
+  date: string  // YYYY-MM-DD
+  content: string  // Markdown, as written to the daily note
+  summary: string  // One line for the notification
+  relativePath: string  // Daily note the briefing was written to
+  historyId: string
+}
+
+export type BriefingRun =
+  | { sent: true; briefing: Briefing; resent: boolean }  // resent: written earlier, but not shown yet
+  | { sent: false; skipped: 'not-configured' | 'not-yet' | 'already-sent' }
+
+/**
+ * Parses an HH:MM time, or returns null if it is not a valid time
+ */
+export function parseBriefingTime(value: unknown): { hours: number; minutes: number } | null {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{1,2}):(\d{2})$/) : null
+  if (!match) return null
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null
+}
+
+function formatTaskItem(task: Task): string {
+  // Plain list items, so the briefing does not add copies of the tasks
+  return `- ${task.text} (${task.relativePath}${task.due ? `, due ${task.due}` : ''}${task.priority ? `, !${task.priority}` : ''})`
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Builds the briefing of a day. The calendar is optional; when it cannot be
+ * read, the briefing says so instead of failing.
+ */
+export async function buildBriefing(
+  notesFolderPath: string,
+  options: { calendarUrls?: string[]; now?: Date } = {},
+): Promise<Pick<Briefing, 'date' | 'content' | 'summary'>> {
+  const now = options.now || new Date()
+  const today = localDateString(now)
+  const sections: string[] = [`${BRIEFING_HEADING} (${formatTime(now)})`]
+  const counts: string[] = []
+
+  if (options.calendarUrls && options.calendarUrls.length > 0) {
+    try {
+      const from = parseLocalDate(today)
+      const to = parseLocalDate(addDays(today, 1))
+      const events = (await Promise.all(options.calendarUrls.map(url => fetchCalendarEventsBetween(url, from, to))))
+        .flat()
+        .sort((a, b) => a.start.getTime() - b.start.getTime())
+      const calendar = formatCalendarSummary(
+        { totalEvents: events.length, todayEvents: events, thisWeekEvents: [], upcomingEvents: [], allEvents: events },
+        MAX_BRIEFING_EVENTS,
+        { todayOnly: true },
+      )
+      // Nest the summary's headings under the briefing heading
+      sections.push(calendar.trim().replace(/^#/gm, '###'))
+      counts.push(plural(events.length, 'event'))
+    } catch (error) {
+      sections.push(`### Today's Calendar\n\nThe calendar could not be read: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const notes = await readNotesFromFolder(notesFolderPath)
+  const tasks = notes.flatMap(note => parseTasks(note.content, note))
+  const dueToday = filterTasks(tasks, { due: 'today' })
+  const overdue = filterTasks(tasks, { due: 'overdue' })
+  sections.push(`### Due today\n\n${dueToday.slice(0, MAX_BRIEFING_TASKS).map(formatTaskItem).join('\n') || 'Nothing is due today.'}`)
+  if (overdue.length > 0) {
+    sections.push(`### Overdue\n\n${overdue.slice(0, MAX_BRIEFING_TASKS).map(formatTaskItem).join('\n')}`)
+  }
+  counts.push(`${plural(dueToday.length, 'task')} due`)
+  if (overdue.length > 0) counts.push(`${overdue.length} overdue`)
+
+  const state = await readState(notesFolderPath).catch(() => ({} as Record<string, any>))
+  const reminders: Array<{ dateTime: string; reminderText: string }> = (Array.isArray(state.reminders) ? state.reminders : [])
+    .filter((reminder: any) => typeof reminder?.dateTime === 'string' && localDateString(new Date(reminder.dateTime)) === today)
+    .sort((a: any, b: any) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime())
+  if (reminders.length > 0) {
+    sections.push(`### Reminders\n\n${reminders.map(reminder => `- ${formatTime(new Date(reminder.dateTime))}: ${reminder.reminderText}`).join('\n')}`)
+    counts.push(plural(reminders.length, 'reminder'))
+  }
+
+  // Unfinished goals, closest target date first
+  const goals = (await readGoals(notesFolderPath))
+    .filter(goal => goal.progress < 100)
+    .sort((a, b) => (a.targetDate || '9999-99-99').localeCompare(b.targetDate || '9999-99-99'))
+    .slice(0, MAX_BRIEFING_GOALS)
+  if (goals.length > 0) {
+    sections.push(`### Top goals\n\n${goals.map(goal => `- ${goal.title}: ${goal.progress}%${goal.targetDate ? ` (target ${goal.targetDate})` : ''}`).join('\n')}`)
+  }
+
+  return { date: today, content: sections.join('\n\n'), summary: counts.join(', ') }
+}
+
+/**
+ * Appends the briefing to today's daily note, recording the edit in the history
+ */
+export async function writeBriefingToDailyNote(
+  notesFolderPath: string,
+  briefing: Pick<Briefing, 'date' | 'content'>,
+): Promise<{ relativePath: string; historyId: string }> {
+  const relativePath = await findDailyNotePath(notesFolderPath, briefing.date)
+  const resolved = await resolveSandboxedPath(notesFolderPath, relativePath)
+  if (!resolved.ok) {
+    throw new Error(resolved.error)
+  }
+
+  const existing = resolved.exists ? (await readFile(resolved.path, 'utf-8')).replace(/\s+$/, '') : ''
+  const content = existing ? `${existing}\n\n${briefing.content}\n` : `${briefing.content}\n`
+  const entry = await writeNoteWithHistory(notesFolderPath, resolved.path, content, 'morningBriefing')
+  return { relativePath, historyId: entry.id }
+}
+
+/**
+ * Sends the briefing if the space has a briefing time, it has passed today
+ * and no briefing was sent today yet
+ */
+export async function runScheduledBriefing(
+  notesFolderPath: string,
+  options: { calendarUrl?: string; now?: Date } = {},
+): Promise<BriefingRun> {
+  const now = options.now || new Date()
+  const settings = await readSpaceSettings(notesFolderPath)
+  const time = parseBriefingTime(settings.briefingTime)
+  if (!time) {
+    return { sent: false, skipped: 'not-configured' }
+  }
+  if (now.getHours() * 60 + now.getMinutes() < time.hours * 60 + time.minutes) {
+    return { sent: false, skipped: 'not-yet' }
+  }
+
+  // Claim today's briefing before building it, which takes a while, so that
+  // only one check sends it. A briefing that was not shown yet is sent again.
+  const today = localDateString(now)
+  const claim = await withStateLock(notesFolderPath, async () => {
+    const state = await readState(notesFolderPath)
+    if (state.lastBriefingDate === today) {
+      const pending: Briefing | undefined = state.pendingBriefing
+      return { claimed: false as const, pending: pending?.date === today ? pending : undefined }
+    }
+    await writeState(notesFolderPath, { ...state, lastBriefingDate: today })
+    return { claimed: true as const, previousDate: state.lastBriefingDate as string | undefined }
+  })
+  if (!claim.claimed) {
+    return claim.pending ? { sent: true, briefing: claim.pending, resent: true } : { sent: false, skipped: 'already-sent' }
+  }
+
+  const { previousDate } = claim
+  try {
+    const built = await buildBriefing(notesFolderPath, { calendarUrls: getSpaceCalendarUrls(settings, options.calendarUrl), now })
+    const briefing: Briefing = { ...built, ...(await writeBriefingToDailyNote(notesFolderPath, built)) }
+    await withStateLock(notesFolderPath, async () => {
+      await writeState(notesFolderPath, { ...(await readState(notesFolderPath)), pendingBriefing: briefing })
+    })
+    return { sent: true, briefing, resent: false }
+  } catch (error) {
+    // Let the next check try again
+    await withStateLock(notesFolderPath, async () => {
+      const state = await readState(notesFolderPath)
+      if (state.lastBriefingDate === today) {
+        await writeState(notesFolderPath, { ...state, lastBriefingDate: previousDate })
+      }
+    })
+    throw error
+  }
+}
+
+/**
+ * Records that the notification of a briefing was shown, so it is not sent again
+ */
+export async function markBriefingDelivered(notesFolderPath: string, date: string): Promise<void> {
+  await withStateLock(notesFolderPath, async () => {
+    const state = await readState(notesFolderPath)
+    if (state.pendingBriefing?.date === date) {
+      const { pendingBriefing, ...rest } = state
+      await writeState(notesFolderPath, rest)
+    }
+  })
+}
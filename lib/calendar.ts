@@ -23,6 +23,32 @@ export interface CalendarInfo {
   allEvents: CalendarEvent[]
 }
 
+/**
+ * Downloads the iCal content of a calendar URL
+ */
+async function fetchICalContent(url: string): Promise<string> {
+  // Use fetch instead of node-ical's fromURL for better error handling and CORS support
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'text/calendar, text/plain, */*',
+    },
+  })
+
+  if (!response.ok) {
+    // Provide specific guidance based on status code
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`Access denied (HTTP ${response.status}). This is likely a private calendar URL that requires authentication. Please make your calendar public or use a public/shared calendar URL. For Google Calendar: Settings → Select your calendar → Access permissions → Make available publicly.`)
+    } else if (response.status === 404) {
+      throw new Error(`Calendar not found (HTTP ${response.status}). Please verify the URL is correct.`)
+    }
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const icsContent = await response.text()
+  console.log('[Calendar] Successfully fetched calendar, parsing events...')
+  return icsContent
+}
+
 /**
  * Fetches and parses an iCal calendar from a URL
  */
@@ -30,26 +56,7 @@ export async function parseICalFromUrl(url: string): Promise<CalendarInfo> {
   try {
     console.log('[Calendar] Fetching calendar from URL:', url)
 
-    // Use fetch instead of node-ical's fromURL for better error handling and CORS support
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'text/calendar, text/plain, */*',
-      },
-    })
-
-    if (!response.ok) {
-      // Provide specific guidance based on status code
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Access denied (HTTP ${response.status}). This is likely a private calendar URL that requires authentication. Please make your calendar public or use a public/shared calendar URL. For Google Calendar: Settings → Select your calendar → Access permissions → Make available publicly.`)
-      } else if (response.status === 404) {
-        throw new Error(`Calendar not found (HTTP ${response.status}). Please verify the URL is correct.`)
-      }
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
-
-    const icsContent = await response.text()
-    console.log('[Calendar] Successfully fetched calendar, parsing events...')
-
+    const icsContent = await fetchICalContent(url)
     const events = ical.parseICS(icsContent)
     const calendarInfo = parseCalendarEvents(events)
 
@@ -66,6 +73,27 @@ export async function parseICalFromUrl(url: string): Promise<CalendarInfo> {
   }
 }
 
+/**
+ * Fetches several calendars and merges their events
+ */
+export async function parseICalFromUrls(urls: string[]): Promise<CalendarInfo> {
+  if (urls.length === 1) {
+    return parseICalFromUrl(urls[0])
+  }
+
+  const calendars = await Promise.all(urls.map(url => parseICalFromUrl(url)))
+  const sortByStartTime = (a: CalendarEvent, b: CalendarEvent) => a.start.getTime() - b.start.getTime()
+  const merge = (pick: (info: CalendarInfo) => CalendarEvent[]) => calendars.flatMap(pick).sort(sortByStartTime)
+
+  return {
+    totalEvents: calendars.reduce((sum, info) => sum + info.totalEvents, 0),
+    upcomingEvents: merge(info => info.upcomingEvents),
+    todayEvents: merge(info => info.todayEvents),
+    thisWeekEvents: merge(info => info.thisWeekEvents),
+    allEvents: merge(info => info.allEvents),
+  }
+}
+
 /**
  * Parses an iCal calendar from a file path
  */
@@ -156,9 +184,19 @@ function parseCalendarEvents(events: any): CalendarInfo {
 }
 
 /**
- * Formats calendar info into a human-readable summary
+ * Formats calendar info into a human-readable summary. With `todayOnly`,
+ * only today's events are listed.
  */
-export function formatCalendarSummary(info: CalendarInfo, maxEvents: number = 10): string {
+export function formatCalendarSummary(info: CalendarInfo, maxEvents: number = 10, options: { todayOnly?: boolean } = {}): string {
+  if (options.todayOnly) {
+    let summary = `# Today's Calendar\n\n`
+    summary += `Events Today: ${info.todayEvents.length}\n\n`
+    for (const event of info.todayEvents.slice(0, maxEvents)) {
+      summary += formatEvent(event)
+    }
+    return summary
+  }
+
   let summary = `# Calendar Summary\n\n`
   summary += `Total Events: ${info.totalEvents}\n`
   summary += `Events Today: ${info.todayEvents.length}\n`
@@ -223,3 +261,53 @@ function formatEvent(event: CalendarEvent): string {
 
   return eventStr
 }
+
+/**
+ * Fetches the events of a calendar that start within a time range.
+ * Recurring events are expanded into one event per occurrence.
+ */
+export async function fetchCalendarEventsBetween(url: string, from: Date, to: Date): Promise<CalendarEvent[]> {
+  try {
+    const events = ical.parseICS(await fetchICalContent(url))
+    const result: CalendarEvent[] = []
+
+    for (const event of Object.values(events)) {
+      if ((event as any).type !== 'VEVENT') continue
+
+      const vevent = event as any
+      if (!vevent.start) continue
+
+      const start = new Date(vevent.start)
+      const end = vevent.end ? new Date(vevent.end) : new Date(vevent.start)
+      const base: CalendarEvent = {
+        uid: vevent.uid || '',
+        summary: vevent.summary || 'Untitled Event',
+        description: vevent.description,
+        location: vevent.location,
+        start,
+        end,
+        status: vevent.status,
+        recurrenceRule: vevent.rrule?.toString(),
+        isRecurring: !!vevent.rrule,
+      }
+
+      if (!vevent.rrule) {
+        if (start >= from && start < to) result.push(base)
+        continue
+      }
+
+      // Occurrences removed from the series are listed in EXDATE
+      const excluded = Object.values(vevent.exdate || {}).map((date: any) => new Date(date).getTime())
+      const duration = end.getTime() - start.getTime()
+      for (const occurrence of vevent.rrule.between(from, to, true) as Date[]) {
+        if (excluded.includes(occurrence.getTime())) continue
+        result.push({ ...base, start: occurrence, end: new Date(occurrence.getTime() + duration) })
+      }
+    }
+
+    return result.sort((a, b) => a.start.getTime() - b.start.getTime())
+  } catch (error) {
+    console.error('[Calendar] Error fetching calendar events:', error)
+    throw new Error(`Failed to fetch or parse iCal from URL: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
@@ -0,0 +1,69 @@
+// Model capabilities at call time
+// Wraps a model so that every call respects what it supports (ModelConfig.capabilities):
+// the system prompt becomes the first user message for models without one, a
+// fixed temperature replaces the requested one, unsupported tools and output
+// limits are left out, and models that can't stream answer in one piece that is
+// replayed as a stream. Callers like the chat route still choose their options
+// from the capabilities; this keeps background calls from failing too.
+
+import { experimental_wrapLanguageModel, type LanguageModel } from 'ai'
+import { getModelCapabilities, type ModelConfig } from '@/lib/models'
+
+type StreamPart = Awaited<ReturnType<LanguageModel['doStream']>>['stream'] extends ReadableStream<infer Part> ? Part : never
+
+/**
+ * Returns the model wrapped to respect its capabilities, or the model itself
+ * when it supports everything
+ */
+export function withCapabilities(model: LanguageModel, modelConfig: ModelConfig): LanguageModel {
+  const capabilities = getModelCapabilities(modelConfig)
+  if (capabilities.tools && capabilities.systemPrompt && capabilities.temperature === undefined && capabilities.streaming && capabilities.outputLimit) {
+    return model
+  }
+
+  return experimental_wrapLanguageModel({
+    model,
+    middleware: {
+      transformParams: async ({ params }) => ({
+        ...params,
+        prompt: capabilities.systemPrompt
+          ? params.prompt
+          : params.prompt.map(message => message.role === 'system'
+            ? { role: 'user' as const, content: [{ type: 'text' as const, text: message.content }] }
+            : message),
+        ...(capabilities.temperature !== undefined && { temperature: capabilities.temperature }),
+        ...(!capabilities.outputLimit && { maxTokens: undefined }),
+        ...(!capabilities.tools && params.mode.type === 'regular' && { mode: { type: 'regular' as const } }),
+      }),
+      wrapStream: async ({ doStream, params, model: inner }) => {
+        if (capabilities.streaming) {
+          return doStream()
+        }
+
+        const result = await inner.doGenerate(params)
+        const parts: StreamPart[] = [
+          ...(result.text ? [{ type: 'text-delta' as const, textDelta: result.text }] : []),
+          ...(result.toolCalls || []).map(toolCall => ({ type: 'tool-call' as const, ...toolCall })),
+          {
+            type: 'finish',
+            finishReason: result.finishReason,
+            usage: result.usage,
+            ...(result.logprobs && { logprobs: result.logprobs }),
+            ...(result.providerMetadata && { providerMetadata: result.providerMetadata }),
+          },
+        ]
+        return {
+          stream: new ReadableStream<StreamPart>({
+            start(controller) {
+              parts.forEach(part => controller.enqueue(part))
+              controller.close()
+            },
+          }),
+          rawCall: result.rawCall,
+          rawResponse: result.rawResponse,
+          warnings: result.warnings,
+        }
+      },
+    },
+  })
+}
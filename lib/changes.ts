@@ -0,0 +1,178 @@
+// Pending changes for spaces that require approval of agent edits
+// Instead of writing, file-modifying tools store a proposal in
+// `.opencoach/changes/<id>.json`. The change is written only when the user
+// approves it in the UI.
+
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises'
+import fs from 'fs'
+import { join, relative } from 'path'
+import { createUnifiedDiff } from '@/lib/diff'
+import { OPENCOACH_DIR, writeNoteWithHistory } from '@/lib/history'
+import { resolveSandboxedPath } from '@/lib/sandbox'
+
+export const CHANGES_DIR = join(OPENCOACH_DIR, 'changes')
+
+export interface PendingChange {
+  id: string
+  createdAt: string
+  tool: string
+  action: string  // writeToFile mode or editNote operation
+  filePath: string
+  relativePath: string
+  previousContent: string | null  // Content when the change was proposed, null if the file did not exist
+  newContent: string
+  status: 'pending' | 'applied' | 'rejected'
+  resolvedAt?: string
+  historyId?: string
+}
+
+export type PendingChangeSummary = Omit<PendingChange, 'previousContent' | 'newContent'> & { diff: string }
+
+export type CommitResult =
+  | { pendingChange: PendingChange }
+  | { historyId: string }
+
+export type ChangeResult =
+  | { ok: true; change: PendingChangeSummary }
+  | { ok: false; error: string; status: number }
+
+function changesDir(notesFolderPath: string): string {
+  return join(notesFolderPath, CHANGES_DIR)
+}
+
+function isValidChangeId(id: string): boolean {
+  return /^\d+-[a-z0-9]+$/.test(id)
+}
+
+export function toChangeSummary(change: PendingChange): PendingChangeSummary {
+  const { previousContent, newContent, ...summary } = change
+  return { ...summary, diff: createUnifiedDiff(previousContent ?? '', newContent, change.relativePath) }
+}
+
+async function readChange(notesFolderPath: string, id: string): Promise<PendingChange | null> {
+  const changePath = join(changesDir(notesFolderPath), `${id}.json`)
+  if (!isValidChangeId(id) || !fs.existsSync(changePath)) {
+    return null
+  }
+  return JSON.parse(await readFile(changePath, 'utf-8')) as PendingChange
+}
+
+async function saveChange(notesFolderPath: string, change: PendingChange): Promise<void> {
+  await mkdir(changesDir(notesFolderPath), { recursive: true })
+  await writeFile(join(changesDir(notesFolderPath), `${change.id}.json`), JSON.stringify(change, null, 2), 'utf-8')
+}
+
+/**
+ * Stores a proposed edit without touching the note
+ */
+export async function createPendingChange(
+  notesFolderPath: string,
+  proposal: { tool: string; action: string; filePath: string; previousContent: string | null; newContent: string },
+): Promise<PendingChange> {
+  const change: PendingChange = {
+    id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    ...proposal,
+    relativePath: relative(notesFolderPath, proposal.filePath),
+    status: 'pending',
+  }
+
+  await saveChange(notesFolderPath, change)
+  return change
+}
+
+/**
+ * Writes an agent edit through the edit history, or stores it as a pending
+ * change when the space requires approval
+ */
+export async function commitChange(
+  notesFolderPath: string,
+  requireApproval: boolean | undefined,
+  proposal: { tool: string; action: string; filePath: string; previousContent: string | null; newContent: string },
+): Promise<CommitResult> {
+  if (requireApproval) {
+    return { pendingChange: await createPendingChange(notesFolderPath, proposal) }
+  }
+  const entry = await writeNoteWithHistory(notesFolderPath, proposal.filePath, proposal.newContent, proposal.tool)
+  return { historyId: entry.id }
+}
+
+/**
+ * Lists changes that are still waiting for approval, oldest first
+ */
+export async function listPendingChanges(notesFolderPath: string): Promise<PendingChangeSummary[]> {
+  const dir = changesDir(notesFolderPath)
+  if (!fs.existsSync(dir)) {
+    return []
+  }
+
+  const ids = (await readdir(dir))
+    .map(name => name.replace(/\.json$/, ''))
+    .filter(isValidChangeId)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+
+  const pending: PendingChangeSummary[] = []
+  for (const id of ids) {
+    try {
+      const change = await readChange(notesFolderPath, id)
+      if (change?.status === 'pending') pending.push(toChangeSummary(change))
+    } catch (error) {
+      console.error(`Failed to read pending change ${id}:`, error)
+    }
+  }
+
+  return pending
+}
+
+/**
+ * Writes an approved change, recording it in the edit history.
+ * Refuses if the note changed since the change was proposed.
+ */
+export async function applyPendingChange(notesFolderPath: string, id: string): Promise<ChangeResult> {
+  const change = await readChange(notesFolderPath, id)
+  if (!change) {
+    return { ok: false, error: `Change ${id} not found`, status: 404 }
+  }
+  if (change.status !== 'pending') {
+    return { ok: false, error: `Change ${id} was already ${change.status}`, status: 400 }
+  }
+
+  // Check the sandbox again, the folder may have changed since the proposal (e.g. a new symlink)
+  const resolved = await resolveSandboxedPath(notesFolderPath, change.filePath)
+  if (!resolved.ok) {
+    return { ok: false, error: resolved.error, status: 403 }
+  }
+
+  const currentContent = fs.existsSync(change.filePath) ? await readFile(change.filePath, 'utf-8') : null
+  if (currentContent !== change.previousContent) {
+    return { ok: false, error: `${change.relativePath} was modified after this change was proposed. Reject it and ask the coach again.`, status: 409 }
+  }
+
+  const entry = await writeNoteWithHistory(notesFolderPath, change.filePath, change.newContent, change.tool)
+
+  change.status = 'applied'
+  change.resolvedAt = new Date().toISOString()
+  change.historyId = entry.id
+  await saveChange(notesFolderPath, change)
+
+  return { ok: true, change: toChangeSummary(change) }
+}
+
+/**
+ * Discards a proposed change
+ */
+export async function rejectPendingChange(notesFolderPath: string, id: string): Promise<ChangeResult> {
+  const change = await readChange(notesFolderPath, id)
+  if (!change) {
+    return { ok: false, error: `Change ${id} not found`, status: 404 }
+  }
+  if (change.status !== 'pending') {
+    return { ok: false, error: `Change ${id} was already ${change.status}`, status: 400 }
+  }
+
+  change.status = 'rejected'
+  change.resolvedAt = new Date().toISOString()
+  await saveChange(notesFolderPath, change)
+
+  return { ok: true, change: toChangeSummary(change) }
+}
@@ -0,0 +1,167 @@
+// Slash commands typed in the chat input
+// Most commands are deterministic actions run by /api/commands without a model
+// round-trip. Prompt commands (/plan) are sent to the chat as usual, and the
+// chat route replaces them with a specialised prompt for the model.
+// This module has no server dependencies, so the UI uses it for autocomplete.
+
+import { addDays, isValidDateString, localDateString } from '@/lib/dates'
+
+export type CommandName = 'help' | 'plan' | 'review' | 'todo' | 'remind' | 'space' | 'model'
+
+export interface CommandInfo {
+  name: CommandName
+  usage: string
+  description: string
+  kind: 'action' | 'prompt'
+}
+
+export interface ParsedCommand {
+  name: CommandName
+  args: string
+}
+
+export const COMMANDS: CommandInfo[] = [
+  { name: 'plan', usage: '/plan [focus]', description: 'Plan your day from your calendar, tasks and goals', kind: 'prompt' },
+  { name: 'review', usage: '/review', description: 'Write the weekly review of the last 7 days', kind: 'action' },
+  { name: 'todo', usage: '/todo <text>', description: "Add a task to today's daily note", kind: 'action' },
+  { name: 'remind', usage: '/remind <when> <text>', description: 'Set a reminder, e.g. /remind tomorrow 9:00 call the bank', kind: 'action' },
+  { name: 'space', usage: '/space <name>', description: 'Switch to another space', kind: 'action' },
+  { name: 'model', usage: '/model <id>', description: 'Switch to another model', kind: 'action' },
+  { name: 'help', usage: '/help', description: 'List the available commands', kind: 'action' },
+]
+
+// Hour used when a reminder only gives a day
+const DEFAULT_REMINDER_HOUR = 9
+
+/**
+ * Parses a chat input starting with a known slash command, or returns null
+ */
+export function parseCommand(input: string): ParsedCommand | null {
+  const match = input.trim().match(/^\/([a-z]+)(?:\s+([\s\S]*))?$/i)
+  const command = match && COMMANDS.find(info => info.name === match[1].toLowerCase())
+  return command ? { name: command.name, args: (match[2] || '').trim() } : null
+}
+
+export function getCommandInfo(name: CommandName): CommandInfo {
+  return COMMANDS.find(info => info.name === name)!
+}
+
+/**
+ * Returns the commands whose name starts with what was typed after the slash
+ */
+export function getCommandSuggestions(input: string): CommandInfo[] {
+  const match = input.match(/^\/([a-z]*)$/i)
+  return match ? COMMANDS.filter(info => info.name.startsWith(match[1].toLowerCase())) : []
+}
+
+/**
+ * Lists the commands as markdown, for /help
+ */
+export function formatCommandHelp(): string {
+  return '**Commands**\n\n' + COMMANDS.map(info => `- \`${info.usage}\`: ${info.description}`).join('\n')
+}
+
+/**
+ * Returns the prompt the model gets for a prompt command
+ */
+export function getCommandPrompt(command: ParsedCommand, today: string = localDateString()): string {
+  switch (command.name) {
+    case 'plan':
+      return [
+        `Plan my day (today is ${today}).`,
+        "Look at today's calendar events, the tasks due today or overdue (use the listTasks tool) and my goals.",
+        'Propose a realistic time-blocked plan around my meetings, with the most important work first, and point out what will not fit and should be moved.',
+        'Do not change my notes; ask if I want the plan added to my daily note.',
+        command.args && `Focus: ${command.args}`,
+      ].filter(Boolean).join(' ')
+    default:
+      return `/${command.name} ${command.args}`.trim()
+  }
+}
+
+function atTime(date: string, hours: number, minutes: number): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day, hours, minutes)
+}
+
+// Parses "9:00", "14:30", "9am" or "3:15pm"
+function parseClockTime(text: string): { hours: number; minutes: number } | null {
+  const match = text.toLowerCase().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/)
+  if (!match || (!match[2] && !match[3])) return null
+
+  let hours = Number(match[1])
+  const minutes = Number(match[2] || 0)
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null
+    hours = hours % 12 + (match[3] === 'pm' ? 12 : 0)
+  }
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null
+}
+
+/**
+ * Parses the arguments of /remind into a time and the reminder text. Accepts
+ * "in 30m", "in 2 hours", "in 3 days", "at 15:00", "3pm", "tomorrow 9:00",
+ * "tomorrow" and "2026-11-01 09:00". A time that has already passed today
+ * means tomorrow; a day without a time means 09:00.
+ */
+export function parseReminder(args: string, now: Date = new Date()): { dateTime: Date; text: string } | null {
+  const words = args.trim().split(/\s+/).filter(Boolean)
+  const today = localDateString(now)
+  let dateTime: Date | null = null
+  let used = 0
+
+  const relative = args.trim().match(/^in\s+(\d+)\s*(m|min|mins|minutes?|h|hrs?|hours?|d|days?)\b/i)
+  if (relative) {
+    const amount = Number(relative[1])
+    const unit = relative[2].toLowerCase()
+    const minutes = unit.startsWith('d') ? amount * 24 * 60 : unit.startsWith('h') ? amount * 60 : amount
+    return { dateTime: new Date(now.getTime() + minutes * 60 * 1000), text: args.trim().substring(relative[0].length).trim() }
+  }
+
+  let date: string | null = null
+  if (words[used]?.toLowerCase() === 'today') {
+    date = today
+    used++
+  } else if (words[used]?.toLowerCase() === 'tomorrow') {
+    date = addDays(today, 1)
+    used++
+  } else if (words[used] && /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/.test(words[used])) {
+    const [day, time] = words[used].split('T')
+    if (!isValidDateString(day)) return null
+    date = day
+    used++
+    if (time) {
+      const clock = parseClockTime(time)
+      if (!clock) return null
+      dateTime = atTime(day, clock.hours, clock.minutes)
+    }
+  }
+
+  if (!dateTime) {
+    if (words[used]?.toLowerCase() === 'at') used++
+    const single = parseClockTime(words[used] || '')
+    // "3 pm" is written as two words
+    const split = !single && /^(am|pm)$/i.test(words[used + 1] || '') ? parseClockTime(`${words[used]}${words[used + 1]}`) : null
+    const clock = single || split
+    if (clock) {
+      used += single ? 1 : 2
+      dateTime = atTime(date || today, clock.hours, clock.minutes)
+      if (!date && dateTime <= now) {
+        dateTime = atTime(addDays(today, 1), clock.hours, clock.minutes)
+      }
+    } else if (date) {
+      dateTime = atTime(date, DEFAULT_REMINDER_HOUR, 0)
+    }
+  }
+
+  if (!dateTime) return null
+  return { dateTime, text: words.slice(used).join(' ') }
+}
+
+/**
+ * Formats a reminder time the way state.json stores it (local ISO 8601)
+ */
+export function formatReminderDateTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${localDateString(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}:00`
+}
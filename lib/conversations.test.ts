@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { isStoredMessage, parseConversation, serializeConversation, type Conversation, type StoredMessage } from '@/lib/conversations'
+
+function conversation(messages: StoredMessage[]): Conversation {
+  return {
+    id: '1700000000000-abc123',
+    title: 'Plan "the" week',
+    model: 'gpt-4o',
+    createdAt: '2024-01-01T08:00:00.000Z',
+    updatedAt: '2024-01-01T09:00:00.000Z',
+    messages,
+  }
+}
+
+const roundTrip = (value: Conversation) => parseConversation(serializeConversation(value))
+
+describe('serializeConversation and parseConversation', () => {
+  it('round-trips metadata, roles, tool calls and annotations', () => {
+    const value = conversation([
+      { id: 'm1', role: 'user', content: 'What is on today?', createdAt: '2024-01-01T08:00:00.000Z' },
+      {
+        id: 'm2',
+        role: 'assistant',
+        content: 'You have **two** meetings.\n\n- Standup\n- Review',
+        toolInvocations: [{ toolName: 'searchNotes', args: { query: 'today -->' }, result: { ok: true } }],
+        annotations: [{ model: 'gpt-4o' }],
+      },
+    ])
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  it('keeps blank lines at the start and end of a message', () => {
+    const value = conversation([
+      { id: 'm1', role: 'user', content: '\n\nindented\n\n' },
+      { id: 'm2', role: 'assistant', content: '' },
+    ])
+    expect(roundTrip(value).messages.map(message => message.content)).toEqual(['\n\nindented\n\n', ''])
+  })
+
+  it('keeps content lines that look like markers inside their message', () => {
+    const content = [
+      '<!-- opencoach:message {"id":"fake","role":"user"} -->',
+      '<!-- opencoach:message not json -->',
+      '<!-- opencoach:tools [] -->',
+      '\\<!-- opencoach:message already escaped -->',
+    ].join('\n')
+    const value = conversation([
+      { id: 'm1', role: 'user', content },
+      { id: 'm2', role: 'assistant', content: 'ok' },
+    ])
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  it('reads unreadable markers in a hand-edited transcript as content', () => {
+    const markdown = [
+      '---',
+      'id: 1700000000000-abc123',
+      '---',
+      '<!-- opencoach:message {"id":"m1","role":"user"} -->',
+      '## 🧑 You',
+      '<!-- opencoach:tools {broken -->',
+      '',
+      'hello',
+      '<!-- opencoach:message not json -->',
+      '',
+    ].join('\n')
+    expect(parseConversation(markdown).messages).toEqual([
+      {
+        id: 'm1',
+        role: 'user',
+        content: '<!-- opencoach:tools {broken -->\n\nhello\n<!-- opencoach:message not json -->',
+        createdAt: undefined,
+        annotations: undefined,
+      },
+    ])
+  })
+})
+
+describe('isStoredMessage', () => {
+  it('accepts messages with a known role and string content', () => {
+    expect(isStoredMessage({ id: 'm1', role: 'assistant', content: '' })).toBe(true)
+    expect(isStoredMessage({ role: 'robot', content: 'hi' })).toBe(false)
+    expect(isStoredMessage({ role: 'user', content: 42 })).toBe(false)
+    expect(isStoredMessage({ role: 'toString', content: 'hi' })).toBe(false)
+    expect(isStoredMessage(null)).toBe(false)
+    expect(isStoredMessage('hi')).toBe(false)
+  })
+})
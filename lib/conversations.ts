@@ -0,0 +1,297 @@
+// Chat conversations persisted as markdown transcripts
+// Each conversation is stored in `.opencoach/conversations/<id>.md` inside the
+// active space. The file is readable as a normal note: YAML frontmatter with the
+// metadata, then one section per message. HTML comments carry the data needed
+// to load the conversation back (message ids, roles, tool calls).
+
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises'
+import fs from 'fs'
+import { join } from 'path'
+import { OPENCOACH_DIR } from '@/lib/history'
+
+export const CONVERSATIONS_DIR = join(OPENCOACH_DIR, 'conversations')
+
+export interface StoredMessage {
+  id: string
+  role: 'system' | 'user' | 'assistant' | 'data'
+  content: string
+  createdAt?: string
+  toolInvocations?: unknown[]
+  annotations?: unknown[]
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  model: string
+  createdAt: string
+  updatedAt: string
+  messages: StoredMessage[]
+}
+
+export type ConversationSummary = Omit<Conversation, 'messages'> & { messageCount: number }
+
+const MESSAGE_MARKER = /^<!-- opencoach:message (.*) -->$/
+const TOOLS_MARKER = /^<!-- opencoach:tools (.*) -->$/
+// Content lines that look like a marker get one more leading backslash, so they can't start a message
+const ESCAPED_MARKER = /^\\*<!-- opencoach:/
+const MAX_TITLE_LENGTH = 60
+
+const ROLE_HEADINGS: Record<StoredMessage['role'], string> = {
+  user: '## 🧑 You',
+  assistant: '## 🤖 OpenCoach',
+  system: '## ⚙️ System',
+  data: '## 📎 Data',
+}
+
+function conversationsDir(notesFolderPath: string): string {
+  return join(notesFolderPath, CONVERSATIONS_DIR)
+}
+
+export function isValidConversationId(id: string): boolean {
+  return /^\d+-[a-z0-9]+$/.test(id)
+}
+
+/**
+ * Checks that a message sent by the browser can be stored
+ */
+export function isStoredMessage(value: unknown): value is StoredMessage {
+  const message = value as Partial<StoredMessage> | null
+  return typeof message === 'object' && message !== null &&
+    typeof message.role === 'string' && ROLE_HEADINGS.hasOwnProperty(message.role) &&
+    typeof message.content === 'string'
+}
+
+// JSON inside an HTML comment must not contain "-->"
+function encodeCommentJson(value: unknown): string {
+  return JSON.stringify(value).replace(/-->/g, '--\\u003e')
+}
+
+// Returns undefined when the comment does not hold valid JSON, e.g. in a hand-edited transcript
+function parseCommentJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+function escapeContentLine(line: string): string {
+  return ESCAPED_MARKER.test(line) ? `\\${line}` : line
+}
+
+function unescapeContentLine(line: string): string {
+  return /^\\+<!-- opencoach:/.test(line) ? line.substring(1) : line
+}
+
+/**
+ * Creates a title from the first user message
+ */
+export function createConversationTitle(messages: StoredMessage[]): string {
+  const firstUserMessage = messages.find(message => message.role === 'user')
+  const text = (firstUserMessage?.content || 'New conversation').replace(/\s+/g, ' ').trim()
+  return text.length > MAX_TITLE_LENGTH ? text.substring(0, MAX_TITLE_LENGTH - 1) + '…' : text
+}
+
+/**
+ * Serializes a conversation into a markdown transcript
+ */
+export function serializeConversation(conversation: Conversation): string {
+  const lines = [
+    '---',
+    `id: ${conversation.id}`,
+    `title: ${JSON.stringify(conversation.title)}`,
+    `model: ${conversation.model}`,
+    `createdAt: ${conversation.createdAt}`,
+    `updatedAt: ${conversation.updatedAt}`,
+    '---',
+    '',
+    `# ${conversation.title}`,
+    '',
+  ]
+
+  for (const message of conversation.messages) {
+    lines.push(`<!-- opencoach:message ${encodeCommentJson({
+      id: message.id,
+      role: message.role,
+      createdAt: message.createdAt,
+      annotations: message.annotations,
+    })} -->`)
+    lines.push(ROLE_HEADINGS[message.role] || `## ${message.role}`)
+
+    if (message.toolInvocations && message.toolInvocations.length > 0) {
+      lines.push(`<!-- opencoach:tools ${encodeCommentJson(message.toolInvocations)} -->`)
+      const toolNames = message.toolInvocations.map((invocation: any) => `\`${invocation?.toolName}\``)
+      lines.push(`*Tools used: ${toolNames.join(', ')}*`)
+    }
+
+    lines.push('', ...message.content.split('\n').map(escapeContentLine), '')
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Parses a markdown transcript written by serializeConversation
+ */
+export function parseConversation(markdown: string): Conversation {
+  const lines = markdown.split('\n')
+  const metadata: Record<string, string> = {}
+
+  let index = 0
+  if (lines[0] === '---') {
+    index = 1
+    while (index < lines.length && lines[index] !== '---') {
+      const separator = lines[index].indexOf(':')
+      if (separator > 0) {
+        const key = lines[index].substring(0, separator).trim()
+        const value = lines[index].substring(separator + 1).trim()
+        metadata[key] = value.startsWith('"') ? JSON.parse(value) : value
+      }
+      index++
+    }
+    index++
+  }
+
+  const messages: StoredMessage[] = []
+  let current: StoredMessage | null = null
+  let contentLines: string[] = []
+
+  const finishMessage = () => {
+    if (current) {
+      // Only the blank lines serializeConversation puts around the content are removed
+      if (contentLines[0] === '') contentLines.shift()
+      if (contentLines[contentLines.length - 1] === '') contentLines.pop()
+      current.content = contentLines.map(unescapeContentLine).join('\n')
+      messages.push(current)
+    }
+    contentLines = []
+  }
+
+  for (; index < lines.length; index++) {
+    // A marker that can't be read is kept as content
+    const markerMatch = lines[index].match(MESSAGE_MARKER)
+    const header = markerMatch ? parseCommentJson(markerMatch[1]) as Partial<StoredMessage> | undefined : undefined
+    if (header && typeof header === 'object' && typeof header.role === 'string') {
+      finishMessage()
+      current = { id: header.id || '', role: header.role, content: '', createdAt: header.createdAt, annotations: header.annotations }
+
+      // Skip the role heading, then read the optional tool calls
+      index++
+      const toolsMatch = lines[index + 1]?.match(TOOLS_MARKER)
+      const toolInvocations = toolsMatch ? parseCommentJson(toolsMatch[1]) : undefined
+      if (Array.isArray(toolInvocations)) {
+        current.toolInvocations = toolInvocations
+        index++
+        if (lines[index + 1]?.startsWith('*Tools used:')) index++
+      }
+      continue
+    }
+
+    if (current) contentLines.push(lines[index])
+  }
+  finishMessage()
+
+  return {
+    id: metadata.id,
+    title: metadata.title || createConversationTitle(messages),
+    model: metadata.model || '',
+    createdAt: metadata.createdAt,
+    updatedAt: metadata.updatedAt,
+    messages,
+  }
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  const { messages, ...summary } = conversation
+  return { ...summary, messageCount: messages.length }
+}
+
+/**
+ * Loads a conversation, or returns null if it does not exist
+ */
+export async function loadConversation(notesFolderPath: string, id: string): Promise<Conversation | null> {
+  const filePath = join(conversationsDir(notesFolderPath), `${id}.md`)
+  if (!isValidConversationId(id) || !fs.existsSync(filePath)) {
+    return null
+  }
+  return parseConversation(await readFile(filePath, 'utf-8'))
+}
+
+/**
+ * Creates or updates a conversation transcript
+ */
+export async function saveConversation(
+  notesFolderPath: string,
+  conversation: { id?: string; title?: string; model: string; messages: StoredMessage[] },
+): Promise<Conversation> {
+  const now = new Date().toISOString()
+  const existing = conversation.id ? await loadConversation(notesFolderPath, conversation.id) : null
+
+  const saved: Conversation = {
+    id: existing?.id || `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    title: conversation.title || existing?.title || createConversationTitle(conversation.messages),
+    model: conversation.model,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    messages: conversation.messages,
+  }
+
+  await mkdir(conversationsDir(notesFolderPath), { recursive: true })
+  await writeFile(join(conversationsDir(notesFolderPath), `${saved.id}.md`), serializeConversation(saved), 'utf-8')
+
+  return saved
+}
+
+/**
+ * Lists conversations, most recently updated first
+ */
+export async function listConversations(notesFolderPath: string): Promise<ConversationSummary[]> {
+  const dir = conversationsDir(notesFolderPath)
+  if (!fs.existsSync(dir)) {
+    return []
+  }
+
+  const summaries: ConversationSummary[] = []
+  for (const name of await readdir(dir)) {
+    const id = name.replace(/\.md$/, '')
+    if (!name.endsWith('.md') || !isValidConversationId(id)) continue
+
+    try {
+      const conversation = await loadConversation(notesFolderPath, id)
+      if (conversation) summaries.push(toSummary(conversation))
+    } catch (error) {
+      console.error(`Failed to read conversation ${id}:`, error)
+    }
+  }
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Changes the title of a conversation
+ */
+export async function renameConversation(notesFolderPath: string, id: string, title: string): Promise<Conversation | null> {
+  const conversation = await loadConversation(notesFolderPath, id)
+  if (!conversation) {
+    return null
+  }
+
+  conversation.title = title.replace(/\s+/g, ' ').trim()
+  conversation.updatedAt = new Date().toISOString()
+  await writeFile(join(conversationsDir(notesFolderPath), `${id}.md`), serializeConversation(conversation), 'utf-8')
+
+  return conversation
+}
+
+/**
+ * Deletes a conversation. Returns false if it does not exist.
+ */
+export async function deleteConversation(notesFolderPath: string, id: string): Promise<boolean> {
+  const filePath = join(conversationsDir(notesFolderPath), `${id}.md`)
+  if (!isValidConversationId(id) || !fs.existsSync(filePath)) {
+    return false
+  }
+  await unlink(filePath)
+  return true
+}
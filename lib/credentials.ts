@@ -0,0 +1,89 @@
+// Provider credentials
+// Resolves the API key of a model: the key entered in the browser for its
+// provider (sent as `apiKeys` with each request), else the provider's
+// environment variable. Ollama needs none, and OpenAI-compatible servers read
+// the environment variable named by `apiKeyEnv` in models.json.
+
+import type { ModelConfig, ModelProvider } from '@/lib/models'
+
+export type CloudProvider = 'openai' | 'anthropic' | 'google' | 'mistral'
+
+// Keys entered in the browser, by provider
+export type ApiKeys = Partial<Record<CloudProvider, string>>
+
+export type CredentialResult =
+  | { ok: true; apiKey?: string; source: 'request' | 'env' | 'none' }
+  | { ok: false; error: string }
+
+export const CLOUD_PROVIDERS: Record<CloudProvider, { label: string; envVars: string[] }> = {
+  openai: { label: 'OpenAI', envVars: ['OPENAI_API_KEY'] },
+  anthropic: { label: 'Anthropic', envVars: ['ANTHROPIC_API_KEY'] },
+  // @ai-sdk/google reads GOOGLE_GENERATIVE_AI_API_KEY, GOOGLE_API_KEY is the older name in our docs
+  google: { label: 'Google', envVars: ['GOOGLE_GENERATIVE_AI_API_KEY', 'GOOGLE_API_KEY'] },
+  mistral: { label: 'Mistral', envVars: ['MISTRAL_API_KEY'] },
+}
+
+export function isCloudProvider(provider: ModelProvider): provider is CloudProvider {
+  return provider in CLOUD_PROVIDERS
+}
+
+/**
+ * Returns the display name of a provider, for error messages
+ */
+export function getProviderLabel(provider: ModelProvider): string {
+  if (isCloudProvider(provider)) return CLOUD_PROVIDERS[provider].label
+  return provider === 'ollama' ? 'Ollama' : 'OpenAI-compatible'
+}
+
+/**
+ * Reads the per-provider keys of a request body. `openaiApiKey` is the older
+ * single-key field, still accepted as the OpenAI key.
+ */
+export function parseApiKeys(body: any): ApiKeys {
+  const apiKeys: ApiKeys = {}
+  const raw = body?.apiKeys && typeof body.apiKeys === 'object' ? body.apiKeys : {}
+  for (const provider of Object.keys(CLOUD_PROVIDERS) as CloudProvider[]) {
+    const key = typeof raw[provider] === 'string' ? raw[provider].trim() : ''
+    if (key) apiKeys[provider] = key
+  }
+  if (!apiKeys.openai && typeof body?.openaiApiKey === 'string' && body.openaiApiKey.trim()) {
+    apiKeys.openai = body.openaiApiKey.trim()
+  }
+  return apiKeys
+}
+
+/**
+ * Finds the API key to call a model with, or explains which key is missing
+ */
+export function resolveCredential(modelConfig: ModelConfig, apiKeys: ApiKeys = {}): CredentialResult {
+  const { provider } = modelConfig
+
+  if (provider === 'ollama') {
+    return { ok: true, source: 'none' }
+  }
+
+  if (provider === 'openai-compatible') {
+    const apiKey = modelConfig.apiKeyEnv ? process.env[modelConfig.apiKeyEnv]?.trim() : undefined
+    if (apiKey) {
+      return { ok: true, apiKey, source: 'env' }
+    }
+    // Local servers usually don't check the key
+    if (modelConfig.apiKeyEnv && !modelConfig.isLocal) {
+      return { ok: false, error: `API key for ${modelConfig.name} is missing. Set the ${modelConfig.apiKeyEnv} environment variable on the server.` }
+    }
+    return { ok: true, source: 'none' }
+  }
+
+  const { label, envVars } = CLOUD_PROVIDERS[provider]
+  if (apiKeys[provider]) {
+    return { ok: true, apiKey: apiKeys[provider], source: 'request' }
+  }
+  const envKey = envVars.map(name => process.env[name]?.trim()).find(Boolean)
+  if (envKey) {
+    return { ok: true, apiKey: envKey, source: 'env' }
+  }
+  return {
+    ok: false,
+    error: `${label} API key is missing. Add it in the Configuration section (⚙️) at the top of the page, or set ${envVars[0]} on the server.`,
+  }
+}
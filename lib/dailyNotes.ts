@@ -0,0 +1,62 @@
+// Daily notes are notes for a single day, dated by their file name
+// (`2026-10-19.md`, `Journal/2026-10-19 Monday.md`) or by a `date:` field in
+// their frontmatter.
+
+import { readNotesFromFolder, type NoteFile } from '@/lib/notes'
+import { isValidDateString } from '@/lib/dates'
+
+export interface DailyNote {
+  date: string  // YYYY-MM-DD
+  note: NoteFile
+}
+
+const FILE_NAME_DATE = /(\d{4}-\d{2}-\d{2})/
+const FRONTMATTER_DATE = /^date:\s*["']?(\d{4}-\d{2}-\d{2})/m
+
+function getFrontmatter(content: string): string | null {
+  if (!content.startsWith('---')) return null
+  const end = content.indexOf('\n---', 3)
+  return end === -1 ? null : content.substring(3, end)
+}
+
+/**
+ * Returns the date of a daily note, or null if the note is not dated
+ */
+export function getDailyNoteDate(note: Pick<NoteFile, 'name' | 'content'>): string | null {
+  const nameMatch = note.name.match(FILE_NAME_DATE)
+  if (nameMatch && isValidDateString(nameMatch[1])) {
+    return nameMatch[1]
+  }
+
+  const frontmatter = getFrontmatter(note.content)
+  const frontmatterMatch = frontmatter?.match(FRONTMATTER_DATE)
+  return frontmatterMatch && isValidDateString(frontmatterMatch[1]) ? frontmatterMatch[1] : null
+}
+
+/**
+ * Returns the dated notes, oldest first
+ */
+export function findDailyNotes(notes: NoteFile[]): DailyNote[] {
+  const dailyNotes: DailyNote[] = []
+  for (const note of notes) {
+    const date = getDailyNoteDate(note)
+    if (date) dailyNotes.push({ date, note })
+  }
+  return dailyNotes.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Returns the relative path of the daily note of a date. Without one, a new
+ * note is placed next to the most recent daily note, or at the root of the space.
+ */
+export async function findDailyNotePath(notesFolderPath: string, date: string): Promise<string> {
+  const dailyNotes = findDailyNotes(await readNotesFromFolder(notesFolderPath))
+  const existing = dailyNotes.find(dailyNote => dailyNote.date === date)
+  if (existing) {
+    return existing.note.relativePath
+  }
+
+  const latest = dailyNotes.filter(dailyNote => dailyNote.note.name.startsWith(dailyNote.date)).pop()
+  const folder = latest ? latest.note.relativePath.split('/').slice(0, -1).join('/') : ''
+  return folder ? `${folder}/${date}.md` : `${date}.md`
+}
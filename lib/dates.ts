@@ -0,0 +1,50 @@
+// Calendar date helpers
+// Dates are handled as local YYYY-MM-DD strings, which is how they appear in
+// note names, due dates and targets.
+
+/**
+ * Returns the local date as YYYY-MM-DD
+ */
+export function localDateString(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Parses YYYY-MM-DD as local midnight
+ */
+export function parseLocalDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function isValidDateString(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && localDateString(parseLocalDate(date)) === date
+}
+
+export function addDays(date: string, days: number): string {
+  const result = parseLocalDate(date)
+  result.setDate(result.getDate() + days)
+  return localDateString(result)
+}
+
+/**
+ * Returns the Monday of the ISO week containing the date
+ */
+export function startOfIsoWeek(date: string): string {
+  const weekday = (parseLocalDate(date).getDay() + 6) % 7  // Monday = 0
+  return addDays(date, -weekday)
+}
+
+/**
+ * Returns the ISO week of a date, e.g. 2026-W43
+ */
+export function isoWeekString(date: string): string {
+  // The ISO week belongs to the year of its Thursday
+  const thursday = parseLocalDate(addDays(startOfIsoWeek(date), 3))
+  const firstDay = new Date(thursday.getFullYear(), 0, 1)
+  const dayOfYear = Math.round((thursday.getTime() - firstDay.getTime()) / 86400000)
+  const week = Math.floor(dayOfYear / 7) + 1
+  return `${thursday.getFullYear()}-W${String(week).padStart(2, '0')}`
+}
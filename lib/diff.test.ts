@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { createUnifiedDiff } from '@/lib/diff'
+
+const lines = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`)
+
+describe('createUnifiedDiff', () => {
+  it('returns an empty string for identical contents', () => {
+    expect(createUnifiedDiff('a\nb', 'a\nb', 'note.md')).toBe('')
+  })
+
+  it('shows a changed line with its context', () => {
+    expect(createUnifiedDiff('a\nb\nc', 'a\nB\nc', 'note.md')).toBe(
+      ['--- a/note.md', '+++ b/note.md', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'].join('\n'),
+    )
+  })
+
+  it('numbers a new file from zero', () => {
+    expect(createUnifiedDiff('', 'x\ny', 'new.md')).toBe(
+      ['--- a/new.md', '+++ b/new.md', '@@ -0,0 +1,2 @@', '+x', '+y'].join('\n'),
+    )
+  })
+
+  it('keeps three lines of context and splits distant changes into hunks', () => {
+    const oldLines = lines(20, 'line ')
+    const newLines = [...oldLines]
+    newLines[1] = 'changed 2'
+    newLines.splice(17, 0, 'inserted')
+    const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'note.md').split('\n')
+
+    expect(diff.filter(line => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,7 @@'])
+    expect(diff).toContain('-line 2')
+    expect(diff).toContain('+changed 2')
+    expect(diff).toContain('+inserted')
+    expect(diff).not.toContain(' line 9')
+  })
+
+  it('falls back to removing and adding every line when the change is too large', () => {
+    const oldLines = ['same', ...lines(1001, 'old '), 'end']
+    const newLines = ['same', ...lines(1001, 'new '), 'end']
+    const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'big.md').split('\n')
+
+    expect(diff[2]).toBe('@@ -1,1003 +1,1003 @@')
+    expect(diff[3]).toBe(' same')
+    expect(diff.slice(4, 1005).every(line => line.startsWith('-old '))).toBe(true)
+    expect(diff.slice(1005, 2006).every(line => line.startsWith('+new '))).toBe(true)
+    expect(diff[2006]).toBe(' end')
+  })
+})
@@ -0,0 +1,117 @@
+// Minimal line-based unified diff, used to show the model (and the user) what a note edit changed
+
+type DiffOp = { type: 'equal' | 'remove' | 'add'; line: string }
+
+const CONTEXT_LINES = 3
+
+// Upper bound on the cells of the LCS table (about 8 MB). Larger changes are
+// shown as the old lines removed and the new lines added.
+const MAX_LCS_CELLS = 1_000_000
+
+/**
+ * Computes line operations with an LCS over the lines that differ,
+ * after trimming the common prefix and suffix
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix)
+  const b = newLines.slice(prefix, newLines.length - suffix)
+  const ops: DiffOp[] = oldLines.slice(0, prefix).map(line => ({ type: 'equal' as const, line }))
+  const suffixOps = oldLines.slice(oldLines.length - suffix).map(line => ({ type: 'equal' as const, line }))
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    ops.push(...a.map(line => ({ type: 'remove' as const, line })))
+    ops.push(...b.map(line => ({ type: 'add' as const, line })))
+    ops.push(...suffixOps)
+    return ops
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] })
+      i++
+      j++
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ type: 'remove', line: a[i] })
+      i++
+    } else {
+      ops.push({ type: 'add', line: b[j] })
+      j++
+    }
+  }
+  ops.push(...suffixOps)
+
+  return ops
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function createUnifiedDiff(oldText: string, newText: string, fileName: string): string {
+  if (oldText === newText) return ''
+
+  const ops = diffLines(oldText === '' ? [] : oldText.split('\n'), newText === '' ? [] : newText.split('\n'))
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`]
+
+  let index = 0
+  while (index < ops.length) {
+    // Find the next change
+    while (index < ops.length && ops[index].type === 'equal') index++
+    if (index >= ops.length) break
+
+    // Extend the hunk until there are more than 2 * CONTEXT_LINES unchanged lines in a row
+    const hunkStart = Math.max(0, index - CONTEXT_LINES)
+    let hunkEnd = index
+    let equalRun = 0
+    while (hunkEnd < ops.length && equalRun <= CONTEXT_LINES * 2) {
+      equalRun = ops[hunkEnd].type === 'equal' ? equalRun + 1 : 0
+      hunkEnd++
+    }
+    hunkEnd -= Math.max(0, equalRun - CONTEXT_LINES)
+
+    // Line numbers of the hunk start in the old and new file
+    let oldLine = 1
+    let newLine = 1
+    for (let k = 0; k < hunkStart; k++) {
+      if (ops[k].type !== 'add') oldLine++
+      if (ops[k].type !== 'remove') newLine++
+    }
+
+    const hunk = ops.slice(hunkStart, hunkEnd)
+    const oldCount = hunk.filter(op => op.type !== 'add').length
+    const newCount = hunk.filter(op => op.type !== 'remove').length
+
+    output.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`)
+    for (const op of hunk) {
+      output.push(`${op.type === 'add' ? '+' : op.type === 'remove' ? '-' : ' '}${op.line}`)
+    }
+
+    index = hunkEnd
+  }
+
+  return output.join('\n')
+}
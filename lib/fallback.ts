@@ -0,0 +1,197 @@
+// Model fallback
+// When the selected model can't answer, the chat tries the models of an
+// explicit fallback chain in order, set per space (space.json) or by the user
+// in the browser. There is no implicit fallback: an unknown model is an error.
+// Transient provider errors (rate limits, overloaded servers, dropped
+// connections) are retried with backoff before moving on. A local model never
+// falls back to a cloud model unless that is allowed, and local-only spaces
+// never do.
+
+import { APICallError, type LanguageModel } from 'ai'
+import { getProviderLabel, resolveCredential, type ApiKeys } from '@/lib/credentials'
+import { DEFAULT_CONTEXT_WINDOW, DEFAULT_MAX_OUTPUT_TOKENS, getModelCapabilities, type ModelConfig } from '@/lib/models'
+import { findModel } from '@/lib/modelRegistry'
+import { getModel } from '@/lib/providers'
+import { getModelPolicyError, MAX_FALLBACK_MODELS, type SpaceSettings } from '@/lib/spaceSettings'
+
+export interface FallbackOptions {
+  models: string[]  // Model ids, tried in order after the selected model
+  allowCloud: boolean  // Lets a local model fall back to a cloud model
+}
+
+export interface ModelCandidate {
+  modelConfig: ModelConfig
+  model: LanguageModel
+}
+
+export type PreparedModel =
+  | ({ ok: true } & ModelCandidate)
+  | { ok: false; modelConfig: ModelConfig; error: string; status: number }
+
+// Retries of one model on transient errors, waiting RETRY_BASE_DELAY_MS, then twice as long
+const MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+
+function log(...args: any[]) {
+  const timestamp = new Date().toISOString()
+  console.log(`[Fallback ${timestamp}]`, ...args)
+}
+
+/**
+ * Reads the fallback chain of a chat: the space's chain when it has one, else
+ * the one sent by the browser as `fallback: { models, allowCloud }`
+ */
+export function getFallbackOptions(settings: SpaceSettings, requested: unknown): FallbackOptions {
+  const raw = requested && typeof requested === 'object' ? requested as Record<string, unknown> : {}
+  const requestedModels = Array.isArray(raw.models) ? raw.models.filter((id): id is string => typeof id === 'string') : []
+  return {
+    models: (settings.fallbackModels && settings.fallbackModels.length > 0 ? settings.fallbackModels : requestedModels)
+      .map(id => id.trim())
+      .filter(Boolean)
+      .slice(0, MAX_FALLBACK_MODELS),
+    allowCloud: settings.allowCloudFallback ?? raw.allowCloud === true,
+  }
+}
+
+/**
+ * Resolves the fallback chain of a model to the models it may fall back to.
+ * Unknown models, models the space does not allow and cloud models after a
+ * local one (unless allowed) are left out.
+ */
+export async function resolveFallbackChain(primary: ModelConfig, options: FallbackOptions, settings: SpaceSettings): Promise<ModelConfig[]> {
+  const chain: ModelConfig[] = []
+  for (const id of options.models) {
+    const modelConfig = await findModel(id)
+    if (!modelConfig) {
+      log(`Skipping unknown fallback model ${id}`)
+    } else if (modelConfig.id === primary.id || chain.some(model => model.id === modelConfig.id)) {
+      continue
+    } else if (getModelPolicyError(settings, modelConfig)) {
+      log(`Skipping ${modelConfig.name}: the space is local-only`)
+    } else if (primary.isLocal && !modelConfig.isLocal && !options.allowCloud) {
+      log(`Skipping ${modelConfig.name}: a local model does not fall back to the cloud unless allowed`)
+    } else {
+      chain.push(modelConfig)
+    }
+  }
+  return chain
+}
+
+/**
+ * Returns the first model of a chain with the limits every model of the chain
+ * supports: the smallest context window and output limit, and tools only if
+ * all of them have tools. The prompt is built once and may be sent to each
+ * model. A fixed temperature, a missing system prompt or output limit are
+ * handled per model by withCapabilities().
+ */
+export function getChainModelConfig(chain: ModelConfig[]): ModelConfig {
+  const [first] = chain
+  return {
+    ...first,
+    contextWindow: Math.min(...chain.map(model => model.contextWindow ?? DEFAULT_CONTEXT_WINDOW)),
+    maxOutputTokens: Math.min(...chain.map(model => model.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS)),
+    capabilities: { ...first.capabilities, tools: chain.every(model => getModelCapabilities(model).tools) },
+  }
+}
+
+/**
+ * Creates the model instance of a model, or explains why it can't be used
+ */
+export async function prepareModel(modelConfig: ModelConfig, apiKeys: ApiKeys): Promise<PreparedModel> {
+  // Ollama models that are not pulled, or whose Ollama is not running, fail before streaming
+  if (modelConfig.available === false) {
+    return { ok: false, modelConfig, error: `${modelConfig.name} is not available. ${modelConfig.unavailableReason}`, status: 503 }
+  }
+
+  // Each provider needs its own key, from the browser or the server's environment
+  const credential = resolveCredential(modelConfig, apiKeys)
+  if (!credential.ok) {
+    return { ok: false, modelConfig, error: `${credential.error} Or use a local Ollama model, which doesn't require an API key.`, status: 401 }
+  }
+
+  try {
+    return { ok: true, modelConfig, model: await getModel(modelConfig.id, apiKeys) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (message.includes('API key') || message.includes('401')) {
+      return {
+        ok: false,
+        modelConfig,
+        error: `Invalid ${getProviderLabel(modelConfig.provider)} API key. Please check your API key in the Configuration section (⚙️) at the top of the page and make sure it's correct.`,
+        status: 401,
+      }
+    }
+    return { ok: false, modelConfig, error: `${modelConfig.name} could not be loaded: ${message}`, status: 503 }
+  }
+}
+
+/**
+ * Rate limits, server errors and dropped connections are worth retrying
+ */
+export function isTransientError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable
+  }
+  const code = (error as { cause?: { code?: unknown } })?.cause?.code
+  return error instanceof TypeError && (error.message === 'fetch failed' || code === 'ECONNRESET' || code === 'ETIMEDOUT')
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'ResponseAborted')
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Calls the candidates in order until one answers, retrying transient errors
+ * of each with backoff. Reports the model that answered.
+ */
+async function callWithFallback<T>(
+  candidates: ModelCandidate[],
+  call: (model: LanguageModel) => PromiseLike<T>,
+  onModel: (modelConfig: ModelConfig) => void,
+): Promise<T> {
+  let lastError: unknown
+  for (let index = 0; index < candidates.length; index++) {
+    const candidate = candidates[index]
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await call(candidate.model)
+        onModel(candidate.modelConfig)
+        return result
+      } catch (error) {
+        if (isAbortError(error)) throw error
+        lastError = error
+        const message = error instanceof Error ? error.message : String(error)
+        if (isTransientError(error) && attempt < MAX_RETRIES) {
+          const delay = RETRY_BASE_DELAY_MS * 2 ** attempt
+          log(`${candidate.modelConfig.name} failed (${message}), retrying in ${delay}ms`)
+          await sleep(delay)
+          continue
+        }
+        log(`${candidate.modelConfig.name} failed: ${message}` + (index < candidates.length - 1 ? `, falling back to ${candidates[index + 1].modelConfig.name}` : ''))
+        break
+      }
+    }
+  }
+  throw lastError
+}
+
+/**
+ * Returns a model that answers with the first candidate that works. Errors
+ * after a response has started streaming are not retried.
+ */
+export function createFallbackModel(candidates: ModelCandidate[], onModel: (modelConfig: ModelConfig) => void): LanguageModel {
+  const [primary] = candidates
+  return {
+    specificationVersion: 'v1',
+    provider: primary.model.provider,
+    modelId: primary.model.modelId,
+    defaultObjectGenerationMode: primary.model.defaultObjectGenerationMode,
+    supportsImageUrls: primary.model.supportsImageUrls,
+    doGenerate: options => callWithFallback(candidates, model => model.doGenerate(options), onModel),
+    doStream: options => callWithFallback(candidates, model => model.doStream(options), onModel),
+  }
+}
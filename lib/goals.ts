@@ -0,0 +1,203 @@
+// Goals with measurable key results, kept in GOALS.md at the root of the space
+//
+//   ## Run a half marathon
+//   target: 2026-05-01
+//   Get fit enough to enjoy the race.
+//   - [x] Run 10 km without stopping
+//   - [ ] Sign up for a race
+//   - Long runs progress: 3/10
+//
+// Every level 2 heading is a goal. A `target:` line sets its target date.
+// Key results are list items: checkboxes count as done or not done, items with
+// `progress: current/target` count proportionally. A goal's progress is the
+// average of its key results.
+
+import { readFile } from 'fs/promises'
+import fs from 'fs'
+import { join } from 'path'
+import { parseHeadings, type MarkdownEditResult } from '@/lib/markdown'
+
+export const GOALS_FILE = 'GOALS.md'
+
+export interface KeyResult {
+  line: number  // 1-based
+  text: string  // Without checkbox and progress
+  kind: 'checkbox' | 'numeric'
+  current: number
+  target: number
+  completed: boolean
+  progress: number  // 0-100
+}
+
+export interface Goal {
+  title: string
+  line: number  // 1-based line of the heading
+  targetDate?: string  // YYYY-MM-DD
+  description?: string
+  keyResults: KeyResult[]
+  progress: number  // 0-100, average of the key results
+}
+
+const LIST_ITEM = /^\s*[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/
+const NUMERIC_PROGRESS = /\s*\bprogress:\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/i
+const TARGET_DATE = /^\s*target(?: date)?:\s*(\d{4}-\d{2}-\d{2})\s*$/i
+
+function parseKeyResult(line: string, lineNumber: number): KeyResult | null {
+  const item = line.match(LIST_ITEM)
+  if (!item) return null
+
+  const numeric = item[2].match(NUMERIC_PROGRESS)
+  if (numeric) {
+    const current = parseFloat(numeric[1])
+    const target = parseFloat(numeric[2])
+    const ratio = target > 0 ? Math.min(current / target, 1) : 0
+    return {
+      line: lineNumber,
+      text: item[2].replace(NUMERIC_PROGRESS, '').trim(),
+      kind: 'numeric',
+      current,
+      target,
+      completed: ratio >= 1 || item[1]?.toLowerCase() === 'x',
+      progress: Math.round(ratio * 100),
+    }
+  }
+
+  // Plain list items without a checkbox are notes, not key results
+  if (item[1] === undefined) return null
+
+  const completed = item[1].toLowerCase() === 'x'
+  return {
+    line: lineNumber,
+    text: item[2].trim(),
+    kind: 'checkbox',
+    current: completed ? 1 : 0,
+    target: 1,
+    completed,
+    progress: completed ? 100 : 0,
+  }
+}
+
+/**
+ * Parses the goals of a GOALS.md file
+ */
+export function parseGoals(content: string): Goal[] {
+  const lines = content.split('\n')
+  const headings = parseHeadings(lines)
+
+  return headings
+    .filter(heading => heading.level === 2)
+    .map(heading => {
+      const next = headings.find(h => h.line > heading.line && h.level <= 2)
+      const end = next ? next.line : lines.length
+
+      const goal: Goal = { title: heading.text, line: heading.line + 1, keyResults: [], progress: 0 }
+      const description: string[] = []
+
+      for (let i = heading.line + 1; i < end; i++) {
+        const targetMatch = lines[i].match(TARGET_DATE)
+        if (targetMatch) {
+          goal.targetDate = targetMatch[1]
+          continue
+        }
+
+        const keyResult = parseKeyResult(lines[i], i + 1)
+        if (keyResult) {
+          goal.keyResults.push(keyResult)
+        } else if (lines[i].trim() && !/^#/.test(lines[i].trim())) {
+          description.push(lines[i].trim())
+        }
+      }
+
+      if (description.length > 0) goal.description = description.join(' ')
+      if (goal.keyResults.length > 0) {
+        goal.progress = Math.round(goal.keyResults.reduce((sum, kr) => sum + kr.progress, 0) / goal.keyResults.length)
+      }
+      return goal
+    })
+}
+
+/**
+ * Reads the goals of a space. A missing file means no goals.
+ */
+export async function readGoals(notesFolderPath: string): Promise<Goal[]> {
+  const goalsPath = join(notesFolderPath, GOALS_FILE)
+  if (!fs.existsSync(goalsPath)) {
+    return []
+  }
+  return parseGoals(await readFile(goalsPath, 'utf-8'))
+}
+
+/**
+ * Summarizes the goals for the system prompt
+ */
+export function formatGoalsForPrompt(goals: Goal[]): string {
+  return goals.map(goal => {
+    const header = `- ${goal.title}: ${goal.progress}%${goal.targetDate ? ` (target ${goal.targetDate})` : ''}`
+    const keyResults = goal.keyResults.map(kr => kr.kind === 'numeric'
+      ? `  - ${kr.text}: ${kr.current}/${kr.target}`
+      : `  - [${kr.completed ? 'x' : ' '}] ${kr.text}`)
+    return [header, ...keyResults].join('\n')
+  }).join('\n')
+}
+
+function findByText<T>(items: T[], getText: (item: T) => string, wanted: string): T | string[] {
+  const query = wanted.trim().toLowerCase()
+  const exact = items.filter(item => getText(item).toLowerCase() === query)
+  if (exact.length === 1) return exact[0]
+
+  const partial = items.filter(item => getText(item).toLowerCase().includes(query))
+  return partial.length === 1 ? partial[0] : partial.map(getText)
+}
+
+/**
+ * Updates a key result of a goal: ticks a checkbox or sets numeric progress.
+ * Goal and key result are found by their text (case-insensitive, partial match).
+ */
+export function updateKeyResult(
+  content: string,
+  goalTitle: string,
+  keyResultText: string,
+  update: { completed?: boolean; current?: number; target?: number },
+): MarkdownEditResult {
+  const goals = parseGoals(content)
+  const goal = findByText(goals, g => g.title, goalTitle)
+  if (Array.isArray(goal)) {
+    return goal.length === 0
+      ? { ok: false, error: `No goal matching "${goalTitle}" was found in ${GOALS_FILE}.`, candidates: goals.map(g => g.title) }
+      : { ok: false, error: `"${goalTitle}" matches ${goal.length} goals. Use the full title.`, candidates: goal }
+  }
+
+  const keyResult = findByText(goal.keyResults, kr => kr.text, keyResultText)
+  if (Array.isArray(keyResult)) {
+    return keyResult.length === 0
+      ? { ok: false, error: `Goal "${goal.title}" has no key result matching "${keyResultText}".`, candidates: goal.keyResults.map(kr => kr.text) }
+      : { ok: false, error: `"${keyResultText}" matches ${keyResult.length} key results. Use the full text.`, candidates: keyResult }
+  }
+
+  const lines = content.split('\n')
+  const index = keyResult.line - 1
+  let line = lines[index]
+
+  if (keyResult.kind === 'numeric' || update.current !== undefined) {
+    const current = update.current ?? (update.completed ? keyResult.target : keyResult.current)
+    const target = update.target ?? keyResult.target
+    line = NUMERIC_PROGRESS.test(line)
+      ? line.replace(NUMERIC_PROGRESS, match => `${match.match(/^\s*/)![0]}progress: ${current}/${target}`)
+      : `${line.replace(/\s+$/, '')} progress: ${current}/${target}`
+    // Keep a checkbox in sync with the numbers
+    line = line.replace(/^(\s*[-*+]\s+\[)[ xX](\])/, `$1${current >= target ? 'x' : ' '}$2`)
+  } else {
+    const completed = update.completed ?? !keyResult.completed
+    line = line.replace(/^(\s*[-*+]\s+\[)[ xX](\])/, `$1${completed ? 'x' : ' '}$2`)
+  }
+
+  lines[index] = line
+  const newContent = lines.join('\n')
+  const updatedGoal = parseGoals(newContent).find(g => g.line === goal.line)!
+
+  return {
+    ok: true,
+    content: newContent,
+    message: `Updated "${keyResult.text}" of goal "${goal.title}", which is now at ${updatedGoal.progress}%`,
+  }
+}
@@ -0,0 +1,209 @@
+// Habit streaks from daily notes
+// HABITS.md at the root of the space lists the habits to track, one list item
+// per habit, optionally followed by other names used for it in daily notes:
+//
+//   - Exercise: gym, workout, run
+//   - Meditate
+//
+// A habit is done on a day when that day's daily note has a checked checkbox
+// mentioning it (`- [x] exercise 30 min`).
+
+import { readFile } from 'fs/promises'
+import fs from 'fs'
+import { join } from 'path'
+import { addDays, isoWeekString, localDateString, startOfIsoWeek } from '@/lib/dates'
+import { findDailyNotes, type DailyNote } from '@/lib/dailyNotes'
+import { readNotesFromFolder } from '@/lib/notes'
+
+export const HABITS_FILE = 'HABITS.md'
+
+export const DEFAULT_HABIT_WEEKS = 8
+
+export interface HabitDefinition {
+  name: string
+  aliases: string[]
+}
+
+export interface WeeklyCompletion {
+  week: string  // ISO week, e.g. 2026-W43
+  completed: number
+  days: number  // Tracked days of the week
+  rate: number  // 0-100
+}
+
+export interface HabitStats {
+  name: string
+  currentStreak: number
+  longestStreak: number
+  lastCompleted?: string
+  completionRate: number  // 0-100 over the tracked days of the period
+  weeks: WeeklyCompletion[]
+  missedDays: string[]
+}
+
+export interface HabitReport {
+  from?: string  // First tracked day of the period, undefined without daily notes
+  to: string
+  dailyNoteCount: number
+  habits: HabitStats[]
+}
+
+const CHECKED_ITEM = /^\s*[-*+]\s+\[[xX]\]\s+(.*)$/
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Parses the habit list of HABITS.md
+ */
+export function parseHabitDefinitions(content: string): HabitDefinition[] {
+  const habits: HabitDefinition[] = []
+  for (const line of content.split('\n')) {
+    const item = line.match(/^\s*[-*+]\s+(?:\[[ xX]\]\s+)?(.+)$/)
+    if (!item) continue
+
+    const [name, aliases] = item[1].split(/:(.*)/)
+    if (!name.trim()) continue
+    habits.push({
+      name: name.trim(),
+      aliases: (aliases || '').split(',').map(alias => alias.trim()).filter(Boolean),
+    })
+  }
+  return habits
+}
+
+/**
+ * Reads HABITS.md. A missing file means no habits are tracked.
+ */
+export async function readHabitDefinitions(notesFolderPath: string): Promise<HabitDefinition[]> {
+  const habitsPath = join(notesFolderPath, HABITS_FILE)
+  if (!fs.existsSync(habitsPath)) {
+    return []
+  }
+  return parseHabitDefinitions(await readFile(habitsPath, 'utf-8'))
+}
+
+function createHabitMatcher(habit: HabitDefinition): (text: string) => boolean {
+  const pattern = [habit.name, ...habit.aliases].map(term => escapeRegExp(term.toLowerCase())).join('|')
+  const regex = new RegExp(`(^|[^a-z0-9])(${pattern})([^a-z0-9]|$)`)
+  return text => regex.test(text.toLowerCase())
+}
+
+/**
+ * Returns the dates on which the habit was done
+ */
+function findCompletedDates(habit: HabitDefinition, dailyNotes: DailyNote[]): Set<string> {
+  const matches = createHabitMatcher(habit)
+  const dates = new Set<string>()
+  for (const { date, note } of dailyNotes) {
+    const done = note.content.split('\n').some(line => {
+      const item = line.match(CHECKED_ITEM)
+      return item !== null && matches(item[1])
+    })
+    if (done) dates.add(date)
+  }
+  return dates
+}
+
+function computeLongestStreak(dates: Set<string>): number {
+  let longest = 0
+  dates.forEach(date => {
+    // Only count from the first day of each run
+    if (dates.has(addDays(date, -1))) return
+    let length = 1
+    while (dates.has(addDays(date, length))) length++
+    longest = Math.max(longest, length)
+  })
+  return longest
+}
+
+/**
+ * Computes streaks and completion rates of the habits. The period covers the
+ * last `weeks` ISO weeks, starting no earlier than the first daily note.
+ * Today only counts as missed once it is over.
+ */
+export function computeHabitStats(
+  habits: HabitDefinition[],
+  dailyNotes: DailyNote[],
+  options: { weeks?: number; today?: string } = {},
+): HabitReport {
+  const today = options.today || localDateString()
+  const weeks = options.weeks ?? DEFAULT_HABIT_WEEKS
+  const notesUntilToday = dailyNotes.filter(dailyNote => dailyNote.date <= today)
+
+  if (notesUntilToday.length === 0) {
+    return {
+      to: today,
+      dailyNoteCount: 0,
+      habits: habits.map(habit => ({ name: habit.name, currentStreak: 0, longestStreak: 0, completionRate: 0, weeks: [], missedDays: [] })),
+    }
+  }
+
+  const periodStart = addDays(startOfIsoWeek(today), -7 * (weeks - 1))
+  const from = notesUntilToday[0].date > periodStart ? notesUntilToday[0].date : periodStart
+
+  const stats = habits.map(habit => {
+    const completed = findCompletedDates(habit, notesUntilToday)
+
+    let streakEnd = completed.has(today) ? today : addDays(today, -1)
+    let currentStreak = 0
+    while (completed.has(streakEnd)) {
+      currentStreak++
+      streakEnd = addDays(streakEnd, -1)
+    }
+
+    const byWeek = new Map<string, WeeklyCompletion>()
+    const missedDays: string[] = []
+    let trackedDays = 0
+    let completedDays = 0
+
+    for (let day = from; day <= today; day = addDays(day, 1)) {
+      const done = completed.has(day)
+      if (day === today && !done) break
+
+      const week = isoWeekString(day)
+      const weekly = byWeek.get(week) || { week, completed: 0, days: 0, rate: 0 }
+      weekly.days++
+      trackedDays++
+      if (done) {
+        weekly.completed++
+        completedDays++
+      } else {
+        missedDays.push(day)
+      }
+      byWeek.set(week, weekly)
+    }
+
+    const weeklyCompletion = Array.from(byWeek.values())
+    weeklyCompletion.forEach(weekly => {
+      weekly.rate = Math.round((weekly.completed / weekly.days) * 100)
+    })
+
+    const completedDates = Array.from(completed).sort()
+    return {
+      name: habit.name,
+      currentStreak,
+      longestStreak: computeLongestStreak(completed),
+      lastCompleted: completedDates[completedDates.length - 1],
+      completionRate: trackedDays > 0 ? Math.round((completedDays / trackedDays) * 100) : 0,
+      weeks: weeklyCompletion,
+      missedDays,
+    }
+  })
+
+  return { from, to: today, dailyNoteCount: notesUntilToday.length, habits: stats }
+}
+
+/**
+ * Reads HABITS.md and the daily notes of a space and computes the habit stats
+ */
+export async function getHabitReport(notesFolderPath: string, weeks: number = DEFAULT_HABIT_WEEKS): Promise<HabitReport> {
+  const habits = await readHabitDefinitions(notesFolderPath)
+  if (habits.length === 0) {
+    return { to: localDateString(), dailyNoteCount: 0, habits: [] }
+  }
+
+  const dailyNotes = findDailyNotes(await readNotesFromFolder(notesFolderPath))
+  return computeHabitStats(habits, dailyNotes, { weeks })
+}
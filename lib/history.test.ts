@@ -0,0 +1,91 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import fs from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { HISTORY_DIR, listHistory, revertEdit, writeNoteWithHistory } from '@/lib/history'
+
+describe('revertEdit', () => {
+  let notesFolder: string
+  let notePath: string
+
+  beforeEach(async () => {
+    notesFolder = await mkdtemp(join(tmpdir(), 'opencoach-history-'))
+    notePath = join(notesFolder, 'today.md')
+  })
+
+  afterEach(async () => {
+    await rm(notesFolder, { recursive: true, force: true })
+  })
+
+  it('restores the previous content and journals the revert', async () => {
+    await writeFile(notePath, 'before', 'utf-8')
+    const edit = await writeNoteWithHistory(notesFolder, notePath, 'after', 'editNote')
+
+    const result = await revertEdit(notesFolder, edit.id)
+
+    expect(result.ok).toBe(true)
+    expect(await readFile(notePath, 'utf-8')).toBe('before')
+    const history = await listHistory(notesFolder)
+    expect(history.find(entry => entry.tool === 'revert')).toMatchObject({ revertOf: edit.id })
+    expect(history.find(entry => entry.id === edit.id)).toMatchObject({ revertedAt: expect.any(String) })
+  })
+
+  it('removes a note the edit created', async () => {
+    const edit = await writeNoteWithHistory(notesFolder, notePath, 'new note', 'writeToFile')
+
+    expect((await revertEdit(notesFolder, edit.id)).ok).toBe(true)
+    expect(fs.existsSync(notePath)).toBe(false)
+  })
+
+  it('lets a revert be undone, which makes the edit revertable again', async () => {
+    await writeFile(notePath, 'before', 'utf-8')
+    const edit = await writeNoteWithHistory(notesFolder, notePath, 'after', 'editNote')
+    await revertEdit(notesFolder, edit.id)
+    const revert = (await listHistory(notesFolder)).find(entry => entry.revertOf === edit.id)!
+
+    expect((await revertEdit(notesFolder, revert.id)).ok).toBe(true)
+    expect(await readFile(notePath, 'utf-8')).toBe('after')
+    expect((await revertEdit(notesFolder, edit.id)).ok).toBe(true)
+    expect(await readFile(notePath, 'utf-8')).toBe('before')
+  })
+
+  it('refuses to revert twice', async () => {
+    const edit = await writeNoteWithHistory(notesFolder, notePath, 'after', 'editNote')
+    await revertEdit(notesFolder, edit.id)
+
+    expect(await revertEdit(notesFolder, edit.id)).toMatchObject({ ok: false, status: 400 })
+  })
+
+  it('refuses when the note changed since the edit, unless forced', async () => {
+    await writeFile(notePath, 'before', 'utf-8')
+    const edit = await writeNoteWithHistory(notesFolder, notePath, 'after', 'editNote')
+    await writeFile(notePath, 'changed by hand', 'utf-8')
+
+    expect(await revertEdit(notesFolder, edit.id)).toMatchObject({ ok: false, status: 409 })
+    expect(await readFile(notePath, 'utf-8')).toBe('changed by hand')
+    expect((await revertEdit(notesFolder, edit.id, true)).ok).toBe(true)
+    expect(await readFile(notePath, 'utf-8')).toBe('before')
+  })
+
+  it('rejects entries that point outside the notes folder', async () => {
+    const outside = await mkdtemp(join(tmpdir(), 'opencoach-outside-'))
+    const outsidePath = join(outside, 'victim.md')
+    try {
+      await writeFile(outsidePath, 'keep me', 'utf-8')
+      const edit = await writeNoteWithHistory(notesFolder, notePath, 'after', 'editNote')
+      const entryPath = join(notesFolder, HISTORY_DIR, `${edit.id}.json`)
+      const entry = JSON.parse(await readFile(entryPath, 'utf-8'))
+      await writeFile(entryPath, JSON.stringify({ ...entry, filePath: outsidePath, newContent: 'keep me' }), 'utf-8')
+
+      expect(await revertEdit(notesFolder, edit.id, true)).toMatchObject({ ok: false, status: 400 })
+      expect(await readFile(outsidePath, 'utf-8')).toBe('keep me')
+    } finally {
+      await rm(outside, { recursive: true, force: true })
+    }
+  })
+
+  it('reports unknown entries', async () => {
+    expect(await revertEdit(notesFolder, '123-abc')).toMatchObject({ ok: false, status: 404 })
+  })
+})
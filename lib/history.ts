@@ -0,0 +1,178 @@
+// Undo journal for agent file edits
+// Every change the agent makes to a note is recorded in
+// `.opencoach/history/<id>.json` inside the notes folder, together with the
+// content before and after the edit, so that it can be listed and reverted.
+// Reverts are recorded too, so a revert can itself be undone.
+
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises'
+import fs from 'fs'
+import { dirname, join, relative } from 'path'
+import { createUnifiedDiff } from '@/lib/diff'
+import { resolveSandboxedPath } from '@/lib/sandbox'
+
+export const OPENCOACH_DIR = '.opencoach'
+export const HISTORY_DIR = join(OPENCOACH_DIR, 'history')
+
+export interface HistoryEntry {
+  id: string
+  timestamp: string
+  tool: string
+  filePath: string
+  relativePath: string
+  previousContent: string | null  // null if the file did not exist before the edit
+  newContent: string | null  // null if the edit removed the file (a revert of its creation)
+  revertedAt?: string
+  revertOf?: string  // Id of the edit this entry reverted
+}
+
+export type HistorySummary = Omit<HistoryEntry, 'previousContent' | 'newContent'> & { diff: string }
+
+export type RevertResult =
+  | { ok: true; entry: HistorySummary }
+  | { ok: false; error: string; status: number }
+
+function historyDir(notesFolderPath: string): string {
+  return join(notesFolderPath, HISTORY_DIR)
+}
+
+// IDs sort chronologically, so the newest entry is the last file name
+function createHistoryId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`
+}
+
+function isValidHistoryId(id: string): boolean {
+  return /^\d+-[a-z0-9]+$/.test(id)
+}
+
+function toSummary(entry: HistoryEntry): HistorySummary {
+  const { previousContent, newContent, ...summary } = entry
+  return { ...summary, diff: createUnifiedDiff(previousContent ?? '', newContent ?? '', entry.relativePath) }
+}
+
+async function readEntry(notesFolderPath: string, id: string): Promise<HistoryEntry | null> {
+  const entryPath = join(historyDir(notesFolderPath), `${id}.json`)
+  if (!isValidHistoryId(id) || !fs.existsSync(entryPath)) {
+    return null
+  }
+  return JSON.parse(await readFile(entryPath, 'utf-8')) as HistoryEntry
+}
+
+async function saveEntry(notesFolderPath: string, entry: HistoryEntry): Promise<void> {
+  await mkdir(historyDir(notesFolderPath), { recursive: true })
+  await writeFile(join(historyDir(notesFolderPath), `${entry.id}.json`), JSON.stringify(entry, null, 2), 'utf-8')
+}
+
+// Records the change in the journal, then writes the note, or removes it when newContent is null
+async function applyEdit(
+  notesFolderPath: string,
+  filePath: string,
+  newContent: string | null,
+  tool: string,
+  revertOf?: string,
+): Promise<HistoryEntry> {
+  const previousContent = fs.existsSync(filePath) ? await readFile(filePath, 'utf-8') : null
+
+  const entry: HistoryEntry = {
+    id: createHistoryId(),
+    timestamp: new Date().toISOString(),
+    tool,
+    filePath,
+    relativePath: relative(notesFolderPath, filePath),
+    previousContent,
+    newContent,
+    ...(revertOf && { revertOf }),
+  }
+
+  // Snapshot first, so a crash between the two writes never loses the old content
+  await saveEntry(notesFolderPath, entry)
+  if (newContent === null) {
+    if (previousContent !== null) await unlink(filePath)
+  } else {
+    await mkdir(dirname(filePath), { recursive: true })
+    await writeFile(filePath, newContent, 'utf-8')
+  }
+
+  return entry
+}
+
+/**
+ * Writes new content to a note and records the previous content in the journal.
+ * All agent edits should go through this function.
+ */
+export async function writeNoteWithHistory(
+  notesFolderPath: string,
+  filePath: string,
+  newContent: string,
+  tool: string,
+): Promise<HistoryEntry> {
+  return applyEdit(notesFolderPath, filePath, newContent, tool)
+}
+
+/**
+ * Lists journal entries, newest first
+ */
+export async function listHistory(notesFolderPath: string, limit: number = 50): Promise<HistorySummary[]> {
+  const dir = historyDir(notesFolderPath)
+  if (!fs.existsSync(dir)) {
+    return []
+  }
+
+  const ids = (await readdir(dir))
+    .filter(name => name.endsWith('.json'))
+    .map(name => name.replace(/\.json$/, ''))
+    .filter(isValidHistoryId)
+    .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }))
+
+  const summaries: HistorySummary[] = []
+  for (const id of ids.slice(0, limit)) {
+    try {
+      const entry = await readEntry(notesFolderPath, id)
+      if (entry) summaries.push(toSummary(entry))
+    } catch (error) {
+      console.error(`Failed to read history entry ${id}:`, error)
+    }
+  }
+
+  return summaries
+}
+
+/**
+ * Restores the content a note had before the given edit.
+ * Refuses if the note changed since the edit, unless `force` is set.
+ */
+export async function revertEdit(notesFolderPath: string, id: string, force: boolean = false): Promise<RevertResult> {
+  const entry = await readEntry(notesFolderPath, id)
+  if (!entry) {
+    return { ok: false, error: `History entry ${id} not found`, status: 404 }
+  }
+  if (entry.revertedAt) {
+    return { ok: false, error: `This edit was already reverted at ${entry.revertedAt}`, status: 400 }
+  }
+
+  // Journal files can be edited by hand, so the path is checked like any path from the agent
+  const resolved = await resolveSandboxedPath(notesFolderPath, entry.filePath)
+  if (!resolved.ok) {
+    return { ok: false, error: resolved.error, status: 400 }
+  }
+
+  const currentContent = resolved.exists ? await readFile(resolved.path, 'utf-8') : null
+  if (currentContent !== entry.newContent && !force) {
+    return { ok: false, error: `${entry.relativePath} was changed after this edit. Revert anyway with force to discard those changes.`, status: 409 }
+  }
+
+  // The revert is an edit of its own, so it can be undone too. An edit that
+  // created the file is reverted by removing it.
+  await applyEdit(notesFolderPath, resolved.path, entry.previousContent, 'revert', entry.id)
+
+  entry.revertedAt = new Date().toISOString()
+  await saveEntry(notesFolderPath, entry)
+
+  // Undoing a revert makes the edit it reverted undoable again
+  const reverted = entry.revertOf ? await readEntry(notesFolderPath, entry.revertOf) : null
+  if (reverted?.revertedAt) {
+    delete reverted.revertedAt
+    await saveEntry(notesFolderPath, reverted)
+  }
+
+  return { ok: true, entry: toSummary(entry) }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createIgnoreMatcher, DEFAULT_IGNORE_PATTERNS } from '@/lib/ignore'
+
+describe('createIgnoreMatcher', () => {
+  it('matches unanchored patterns at any depth', () => {
+    const matcher = createIgnoreMatcher('*.log\ndrafts')
+    expect(matcher.ignores('debug.log', false)).toBe(true)
+    expect(matcher.ignores('a/b/debug.log', false)).toBe(true)
+    expect(matcher.ignores('projects/drafts', true)).toBe(true)
+    expect(matcher.ignores('projects/drafts/idea.md', false)).toBe(true)
+    expect(matcher.ignores('notes.md', false)).toBe(false)
+  })
+
+  it('anchors patterns with a leading or inner slash to the root', () => {
+    const matcher = createIgnoreMatcher('/archive\njournal/private')
+    expect(matcher.ignores('archive/2023.md', false)).toBe(true)
+    expect(matcher.ignores('work/archive/2023.md', false)).toBe(false)
+    expect(matcher.ignores('journal/private/day.md', false)).toBe(true)
+    expect(matcher.ignores('other/journal/private/day.md', false)).toBe(false)
+  })
+
+  it('applies directory-only patterns to directories and their contents', () => {
+    const matcher = createIgnoreMatcher('tmp/')
+    expect(matcher.ignores('tmp', true)).toBe(true)
+    expect(matcher.ignores('tmp/file.md', false)).toBe(true)
+    expect(matcher.ignores('tmp', false)).toBe(false)
+  })
+
+  it('supports ** and single-character globs', () => {
+    const matcher = createIgnoreMatcher('a/**/secret.md\nday-?.md\n[ab]ck.md')
+    expect(matcher.ignores('a/secret.md', false)).toBe(true)
+    expect(matcher.ignores('a/x/y/secret.md', false)).toBe(true)
+    expect(matcher.ignores('day-1.md', false)).toBe(true)
+    expect(matcher.ignores('day-10.md', false)).toBe(false)
+    expect(matcher.ignores('ack.md', false)).toBe(true)
+    expect(matcher.ignores('ck.md', false)).toBe(false)
+  })
+
+  it('lets the last matching rule win, so negation re-includes files', () => {
+    const matcher = createIgnoreMatcher('*.md\n!keep.md')
+    expect(matcher.ignores('drop.md', false)).toBe(true)
+    expect(matcher.ignores('keep.md', false)).toBe(false)
+  })
+
+  it('skips comments and blank lines and honours escapes', () => {
+    const matcher = createIgnoreMatcher('# comment\n\n\\#hash.md\n\\!bang.md')
+    expect(matcher.ignores('# comment', false)).toBe(false)
+    expect(matcher.ignores('#hash.md', false)).toBe(true)
+    expect(matcher.ignores('!bang.md', false)).toBe(true)
+  })
+
+  it('normalises Windows separators', () => {
+    expect(createIgnoreMatcher('drafts/').ignores('drafts\\idea.md', false)).toBe(true)
+  })
+
+  it('ignores the default folders', () => {
+    const matcher = createIgnoreMatcher(DEFAULT_IGNORE_PATTERNS.join('\n'))
+    expect(matcher.ignores('.obsidian/workspace.json', false)).toBe(true)
+    expect(matcher.ignores('.opencoach/history/1-a.json', false)).toBe(true)
+    expect(matcher.ignores('notes/today.md', false)).toBe(false)
+  })
+})
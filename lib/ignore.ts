@@ -0,0 +1,147 @@
+// Ignore rules for notes traversal
+// Supports the gitignore syntax in a `.opencoachignore` file at the root of the
+// notes folder: globs (*, ?, **, [...]), negation (!), directory-only patterns
+// (trailing /) and anchored patterns (leading or inner /).
+
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+
+export const IGNORE_FILE_NAME = '.opencoachignore'
+
+// Directories that are never useful to the agent and are skipped unless re-included with `!`
+export const DEFAULT_IGNORE_PATTERNS = ['.obsidian/', '.git/', 'node_modules/', '.trash/', '.opencoach/']
+
+interface IgnoreRule {
+  regex: RegExp
+  negated: boolean
+  directoryOnly: boolean
+}
+
+export interface IgnoreMatcher {
+  ignores: (relativePath: string, isDirectory: boolean) => boolean
+}
+
+function escapeRegex(char: string): string {
+  return char.replace(/[.+^${}()|\\]/g, '\\$&')
+}
+
+/**
+ * Converts a single gitignore glob into a regular expression
+ */
+function globToRegex(glob: string, anchored: boolean): RegExp {
+  let pattern = ''
+  let i = 0
+
+  while (i < glob.length) {
+    const char = glob[i]
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything inside
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?'
+          i += 3
+        } else {
+          pattern += '.*'
+          i += 2
+        }
+      } else {
+        pattern += '[^/]*'
+        i++
+      }
+    } else if (char === '?') {
+      pattern += '[^/]'
+      i++
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1)
+      if (end === -1) {
+        pattern += '\\['
+        i++
+      } else {
+        const set = glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')
+        pattern += `[${set}]`
+        i = end + 1
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      pattern += escapeRegex(glob[i + 1])
+      i += 2
+    } else {
+      pattern += escapeRegex(char)
+      i++
+    }
+  }
+
+  // Unanchored patterns match at any depth; a match on a directory also covers its contents
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${pattern}(?:/.*)?$`)
+}
+
+/**
+ * Parses the content of an ignore file into rules
+ */
+export function parseIgnorePatterns(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/\s+$/, '')
+    if (!line || line.startsWith('#')) continue
+
+    let negated = false
+    if (line.startsWith('!')) {
+      negated = true
+      line = line.substring(1)
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.substring(1)
+    }
+
+    const directoryOnly = line.endsWith('/')
+    if (directoryOnly) line = line.replace(/\/+$/, '')
+
+    // A slash at the start or in the middle anchors the pattern to the root
+    const anchored = line.includes('/')
+    line = line.replace(/^\//, '')
+    if (!line) continue
+
+    rules.push({ regex: globToRegex(line, anchored), negated, directoryOnly })
+  }
+
+  return rules
+}
+
+/**
+ * Creates a matcher from ignore patterns. The last matching rule wins, as in gitignore.
+ */
+export function createIgnoreMatcher(content: string): IgnoreMatcher {
+  const rules = parseIgnorePatterns(content)
+
+  return {
+    ignores: (relativePath: string, isDirectory: boolean) => {
+      const path = relativePath.replace(/\\/g, '/').replace(/^\/+/, '')
+      let ignored = false
+
+      for (const rule of rules) {
+        if (rule.negated !== ignored) continue
+        // Directory-only rules still apply to files inside the matched directory
+        if (rule.directoryOnly && !isDirectory && !rule.regex.test(path.substring(0, path.lastIndexOf('/')))) continue
+        if (rule.regex.test(path)) ignored = !rule.negated
+      }
+
+      return ignored
+    },
+  }
+}
+
+/**
+ * Loads the default ignore patterns plus the folder's `.opencoachignore`, if present
+ */
+export async function loadIgnoreMatcher(folderPath: string): Promise<IgnoreMatcher> {
+  let userPatterns = ''
+  try {
+    userPatterns = await readFile(join(folderPath, IGNORE_FILE_NAME), 'utf-8')
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error(`Error reading ${IGNORE_FILE_NAME}:`, error)
+    }
+  }
+
+  return createIgnoreMatcher(DEFAULT_IGNORE_PATTERNS.join('\n') + '\n' + userPatterns)
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { insertUnderHeading, parseHeadings, replaceSection, toggleCheckbox } from '@/lib/markdown'
+
+const note = ['# Day', '', '## TODO', '- [ ] Call mom', '- [x] Run', '', '### Later', '- [ ] Taxes', '', '## Notes', 'Nothing yet'].join('\n')
+
+describe('parseHeadings', () => {
+  it('skips headings inside fenced code blocks', () => {
+    expect(parseHeadings(['# One', '```', '# Not a heading', '```', '## Two ##'])).toEqual([
+      { level: 1, text: 'One', line: 0 },
+      { level: 2, text: 'Two', line: 4 },
+    ])
+  })
+})
+
+describe('insertUnderHeading', () => {
+  it('adds content after the last line of the heading\'s own content', () => {
+    const result = insertUnderHeading(note, '## todo', '- [ ] Buy milk')
+    expect(result.ok && result.content.split('\n').slice(2, 7)).toEqual(['## TODO', '- [ ] Call mom', '- [x] Run', '- [ ] Buy milk', ''])
+  })
+
+  it('adds content right below the heading with position start', () => {
+    const result = insertUnderHeading(note, 'TODO', '- [ ] First', { position: 'start' })
+    expect(result.ok && result.content.split('\n').slice(2, 5)).toEqual(['## TODO', '- [ ] First', '- [ ] Call mom'])
+  })
+
+  it('creates a missing heading at the end of the note', () => {
+    const result = insertUnderHeading('Some text\n\n', 'Ideas', 'Write more\n', { headingLevel: 3 })
+    expect(result).toEqual({
+      ok: true,
+      content: 'Some text\n\n### Ideas\nWrite more\n',
+      message: 'Created heading "Ideas" and added content under it',
+    })
+  })
+})
+
+describe('replaceSection', () => {
+  it('replaces the section and its subsections up to the next heading of the same level', () => {
+    const result = replaceSection(note, 'TODO', '- [ ] Only this')
+    expect(result.ok && result.content).toBe(['# Day', '', '## TODO', '- [ ] Only this', '', '## Notes', 'Nothing yet'].join('\n'))
+  })
+
+  it('replaces the last section up to the end of the note', () => {
+    const result = replaceSection(note, 'Notes', 'Done')
+    expect(result.ok && result.content.endsWith('## Notes\nDone')).toBe(true)
+  })
+})
+
+describe('toggleCheckbox', () => {
+  it('flips an item found by partial, case-insensitive text', () => {
+    const result = toggleCheckbox(note, 'call MOM')
+    expect(result.ok && result.content).toContain('- [x] Call mom')
+    expect(result.ok && result.message).toBe('Checked "Call mom"')
+  })
+
+  it('sets the state explicitly when checked is given', () => {
+    const result = toggleCheckbox(note, 'Run', true)
+    expect(result.ok && result.content).toBe(note)
+  })
+
+  it('reports missing and ambiguous items', () => {
+    expect(toggleCheckbox(note, 'groceries')).toEqual({ ok: false, error: 'No checkbox item matching "groceries" was found.' })
+    const ambiguous = toggleCheckbox('- [ ] Pay rent\n- [ ] Pay taxes', 'pay')
+    expect(ambiguous.ok).toBe(false)
+    expect(!ambiguous.ok && ambiguous.candidates).toEqual(['- [ ] Pay rent', '- [ ] Pay taxes'])
+  })
+
+  it('prefers the exact match among several items', () => {
+    const result = toggleCheckbox('- [ ] Run\n- [ ] Run 5k', 'run')
+    expect(result.ok && result.content).toBe('- [x] Run\n- [ ] Run 5k')
+  })
+})
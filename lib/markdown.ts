@@ -0,0 +1,181 @@
+// Structure-aware markdown edits used by the editNote tool
+// All functions are pure: they take the note content and return the new content.
+
+export interface MarkdownHeading {
+  level: number
+  text: string
+  line: number  // 0-based index into the note's lines
+}
+
+export type MarkdownEditResult =
+  | { ok: true; content: string; message: string }
+  | { ok: false; error: string; candidates?: string[] }
+
+const CHECKBOX_REGEX = /^(\s*[-*+]\s+\[)([ xX])(\]\s+)(.*)$/
+
+/**
+ * Returns all ATX headings in the content, skipping fenced code blocks
+ */
+export function parseHeadings(lines: string[]): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = []
+  let inFence = false
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence
+      return
+    }
+    if (inFence) return
+
+    const match = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/)
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2], line: index })
+    }
+  })
+
+  return headings
+}
+
+function normalizeHeading(text: string): string {
+  return text.replace(/^#+\s*/, '').trim().toLowerCase()
+}
+
+/**
+ * Finds a heading by text (case-insensitive, leading #'s optional)
+ */
+export function findHeading(lines: string[], heading: string): MarkdownHeading | undefined {
+  const wanted = normalizeHeading(heading)
+  return parseHeadings(lines).find(h => normalizeHeading(h.text) === wanted)
+}
+
+/**
+ * Returns the line index where the heading's section ends (exclusive):
+ * the next heading of the same or higher level, or the end of the file.
+ * With `ownContentOnly`, the section also ends at the first subheading.
+ */
+function findSectionEnd(lines: string[], heading: MarkdownHeading, ownContentOnly: boolean): number {
+  const next = parseHeadings(lines).find(h => h.line > heading.line && (ownContentOnly || h.level <= heading.level))
+  return next ? next.line : lines.length
+}
+
+function splitContent(content: string): string[] {
+  return content.replace(/\n+$/, '').split('\n')
+}
+
+/**
+ * Appends a new heading (and optional body) at the end of the note
+ */
+function appendHeading(lines: string[], heading: string, level: number, body: string[]): string[] {
+  const result = [...lines]
+  while (result.length > 0 && result[result.length - 1].trim() === '') result.pop()
+  if (result.length > 0) result.push('')
+  result.push(`${'#'.repeat(level)} ${heading.replace(/^#+\s*/, '').trim()}`, ...body, '')
+  return result
+}
+
+/**
+ * Inserts content under a heading, at the start or end of the heading's own content.
+ * The heading is created at the end of the note if it does not exist.
+ */
+export function insertUnderHeading(
+  content: string,
+  heading: string,
+  text: string,
+  options: { position?: 'start' | 'end'; headingLevel?: number } = {},
+): MarkdownEditResult {
+  const lines = content.split('\n')
+  const newLines = splitContent(text)
+  const target = findHeading(lines, heading)
+
+  if (!target) {
+    return {
+      ok: true,
+      content: appendHeading(lines, heading, options.headingLevel ?? 2, newLines).join('\n'),
+      message: `Created heading "${heading}" and added content under it`,
+    }
+  }
+
+  let insertAt: number
+  if (options.position === 'start') {
+    insertAt = target.line + 1
+  } else {
+    // Insert after the last non-blank line, so trailing blank lines stay before the next heading
+    insertAt = findSectionEnd(lines, target, true)
+    while (insertAt > target.line + 1 && lines[insertAt - 1].trim() === '') insertAt--
+  }
+
+  const result = [...lines.slice(0, insertAt), ...newLines, ...lines.slice(insertAt)]
+  return { ok: true, content: result.join('\n'), message: `Added content under "${target.text}"` }
+}
+
+/**
+ * Replaces everything under a heading (including subsections) with new content.
+ * The heading is created at the end of the note if it does not exist.
+ */
+export function replaceSection(
+  content: string,
+  heading: string,
+  text: string,
+  options: { headingLevel?: number } = {},
+): MarkdownEditResult {
+  const lines = content.split('\n')
+  const newLines = splitContent(text)
+  const target = findHeading(lines, heading)
+
+  if (!target) {
+    return {
+      ok: true,
+      content: appendHeading(lines, heading, options.headingLevel ?? 2, newLines).join('\n'),
+      message: `Created heading "${heading}" with the new content`,
+    }
+  }
+
+  const sectionEnd = findSectionEnd(lines, target, false)
+  const keepBlankLine = sectionEnd < lines.length ? [''] : []
+  const result = [...lines.slice(0, target.line + 1), ...newLines, ...keepBlankLine, ...lines.slice(sectionEnd)]
+  return { ok: true, content: result.join('\n'), message: `Replaced the content of "${target.text}"` }
+}
+
+/**
+ * Toggles a `- [ ]` checkbox item found by text (case-insensitive substring).
+ * Passing `checked` sets the state explicitly instead of flipping it.
+ */
+export function toggleCheckbox(content: string, itemText: string, checked?: boolean): MarkdownEditResult {
+  const lines = content.split('\n')
+  const wanted = itemText.trim().toLowerCase()
+
+  const matches: number[] = []
+  lines.forEach((line, index) => {
+    const match = line.match(CHECKBOX_REGEX)
+    if (match && match[4].toLowerCase().includes(wanted)) matches.push(index)
+  })
+
+  if (matches.length === 0) {
+    return { ok: false, error: `No checkbox item matching "${itemText}" was found.` }
+  }
+
+  // Prefer an exact match when the text matches several items
+  let index = matches[0]
+  if (matches.length > 1) {
+    const exact = matches.filter(i => lines[i].match(CHECKBOX_REGEX)![4].trim().toLowerCase() === wanted)
+    if (exact.length !== 1) {
+      return {
+        ok: false,
+        error: `"${itemText}" matches ${matches.length} checkbox items. Use more specific text.`,
+        candidates: matches.map(i => lines[i].trim()),
+      }
+    }
+    index = exact[0]
+  }
+
+  const match = lines[index].match(CHECKBOX_REGEX)!
+  const isChecked = match[2].toLowerCase() === 'x'
+  const shouldCheck = checked ?? !isChecked
+  lines[index] = `${match[1]}${shouldCheck ? 'x' : ' '}${match[3]}${match[4]}`
+
+  return {
+    ok: true,
+    content: lines.join('\n'),
+    message: `${shouldCheck ? 'Checked' : 'Unchecked'} "${match[4].trim()}"`,
+  }
+}
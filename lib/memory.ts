@@ -0,0 +1,298 @@
+// Long-term coaching memory
+// Durable facts about the user (goals, preferences, commitments, obstacles) are
+// kept in `MEMORY.md` at the root of the space, grouped by category. The file
+// is a normal note the user can edit. It is injected into the system prompt of
+// every chat, updated by the remember/forget tools and by the extraction that
+// runs when a conversation ends. In spaces that require approval, these updates
+// are proposed as pending changes like any other agent edit.
+
+import { generateText, type LanguageModel } from 'ai'
+import { readFile } from 'fs/promises'
+import fs from 'fs'
+import { join } from 'path'
+import { commitChange, type PendingChange } from '@/lib/changes'
+import { tokenize } from '@/lib/retrieval'
+
+export const MEMORY_FILE = 'MEMORY.md'
+
+// Oldest entries are dropped once either limit is reached
+export const MAX_MEMORY_ENTRIES = 60
+export const MAX_MEMORY_CHARS = 6000
+
+// Entries whose words overlap at least this much are considered the same fact
+const DUPLICATE_SIMILARITY = 0.8
+
+export const MEMORY_CATEGORIES = ['goal', 'preference', 'commitment', 'obstacle', 'fact'] as const
+export type MemoryCategory = typeof MEMORY_CATEGORIES[number]
+
+const CATEGORY_HEADINGS: Record<MemoryCategory, string> = {
+  goal: 'Goals',
+  preference: 'Preferences',
+  commitment: 'Commitments',
+  obstacle: 'Obstacles',
+  fact: 'Other facts',
+}
+
+export interface MemoryUpdate {
+  entries: MemoryEntry[]  // The entries added or removed
+  pendingChange?: PendingChange  // Set when the update waits for approval
+}
+
+export interface MemoryEntry {
+  category: MemoryCategory
+  text: string
+  date: string  // YYYY-MM-DD, when the fact was last remembered
+}
+
+const ENTRY_DATE = /\s*_\((\d{4}-\d{2}-\d{2})\)_\s*$/
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, ' ').trim()
+}
+
+function similarity(a: string, b: string): number {
+  const termsA = new Set(tokenize(a))
+  const termsB = new Set(tokenize(b))
+  if (termsA.size === 0 || termsB.size === 0) return 0
+
+  let shared = 0
+  termsA.forEach(term => {
+    if (termsB.has(term)) shared++
+  })
+  return shared / (termsA.size + termsB.size - shared)
+}
+
+function isSameFact(a: MemoryEntry, b: MemoryEntry): boolean {
+  const normalizedA = normalize(a.text)
+  const normalizedB = normalize(b.text)
+  return normalizedA === normalizedB || similarity(a.text, b.text) >= DUPLICATE_SIMILARITY
+}
+
+export function isMemoryCategory(value: unknown): value is MemoryCategory {
+  return typeof value === 'string' && (MEMORY_CATEGORIES as readonly string[]).includes(value)
+}
+
+/**
+ * Parses MEMORY.md. Bullets under an unknown heading are treated as other facts.
+ */
+export function parseMemory(content: string): MemoryEntry[] {
+  const headingToCategory = new Map<string, MemoryCategory>()
+  for (const category of MEMORY_CATEGORIES) {
+    headingToCategory.set(CATEGORY_HEADINGS[category].toLowerCase(), category)
+  }
+
+  const entries: MemoryEntry[] = []
+  let category: MemoryCategory = 'fact'
+
+  for (const line of content.split('\n')) {
+    const headingMatch = line.match(/^##\s+(.+?)\s*$/)
+    if (headingMatch) {
+      category = headingToCategory.get(headingMatch[1].toLowerCase()) || 'fact'
+      continue
+    }
+
+    const bulletMatch = line.match(/^\s*[-*]\s+(.+)$/)
+    if (!bulletMatch) continue
+
+    const dateMatch = bulletMatch[1].match(ENTRY_DATE)
+    const text = bulletMatch[1].replace(ENTRY_DATE, '').trim()
+    if (text) {
+      entries.push({ category, text, date: dateMatch ? dateMatch[1] : '' })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Writes entries back to markdown, one section per category
+ */
+export function serializeMemory(entries: MemoryEntry[]): string {
+  const lines = [
+    '# Memory',
+    '',
+    'What OpenCoach remembers between conversations. You can edit or remove any line.',
+  ]
+
+  for (const category of MEMORY_CATEGORIES) {
+    const inCategory = entries.filter(entry => entry.category === category)
+    if (inCategory.length === 0) continue
+
+    lines.push('', `## ${CATEGORY_HEADINGS[category]}`, '')
+    for (const entry of inCategory) {
+      lines.push(entry.date ? `- ${entry.text} _(${entry.date})_` : `- ${entry.text}`)
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Adds entries, replacing older versions of the same fact, then drops the
+ * oldest entries until the memory fits the size limits
+ */
+export function mergeMemories(existing: MemoryEntry[], additions: MemoryEntry[]): MemoryEntry[] {
+  let merged = [...existing]
+  for (const addition of additions) {
+    merged = merged.filter(entry => !isSameFact(entry, addition))
+    merged.push(addition)
+  }
+
+  // Stable sort keeps file order for entries from the same day
+  const byAge = merged
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => a.entry.date.localeCompare(b.entry.date) || a.index - b.index)
+    .map(({ entry }) => entry)
+
+  while (byAge.length > MAX_MEMORY_ENTRIES || (byAge.length > 1 && serializeMemory(byAge).length > MAX_MEMORY_CHARS)) {
+    const oldest = byAge.shift()!
+    merged = merged.filter(entry => entry !== oldest)
+  }
+
+  return merged
+}
+
+/**
+ * Reads the memory of a space. A missing file is an empty memory.
+ */
+export async function readMemory(notesFolderPath: string): Promise<MemoryEntry[]> {
+  const memoryPath = join(notesFolderPath, MEMORY_FILE)
+  if (!fs.existsSync(memoryPath)) {
+    return []
+  }
+  return parseMemory(await readFile(memoryPath, 'utf-8'))
+}
+
+// Writes MEMORY.md, or proposes the new content when the space requires approval
+async function commitMemory(notesFolderPath: string, entries: MemoryEntry[], tool: string, requireApproval: boolean | undefined): Promise<PendingChange | undefined> {
+  const memoryPath = join(notesFolderPath, MEMORY_FILE)
+  const previousContent = fs.existsSync(memoryPath) ? await readFile(memoryPath, 'utf-8') : null
+  const result = await commitChange(notesFolderPath, requireApproval, {
+    tool,
+    action: 'update_memory',
+    filePath: memoryPath,
+    previousContent,
+    newContent: serializeMemory(entries),
+  })
+  return 'pendingChange' in result ? result.pendingChange : undefined
+}
+
+/**
+ * Stores new facts in MEMORY.md. Returns the entries that were not already known.
+ */
+export async function rememberFacts(
+  notesFolderPath: string,
+  facts: Array<{ category: MemoryCategory; text: string }>,
+  tool: string,
+  requireApproval?: boolean,
+): Promise<MemoryUpdate> {
+  const existing = await readMemory(notesFolderPath)
+  const additions = facts
+    .map(fact => ({ category: fact.category, text: fact.text.replace(/\s+/g, ' ').trim(), date: today() }))
+    .filter(fact => fact.text)
+
+  const added = additions.filter(addition => !existing.some(entry => normalize(entry.text) === normalize(addition.text)))
+  if (added.length === 0) {
+    return { entries: [] }
+  }
+
+  const pendingChange = await commitMemory(notesFolderPath, mergeMemories(existing, added), tool, requireApproval)
+  return { entries: added, pendingChange }
+}
+
+/**
+ * Removes the facts matching a description. Returns the removed entries.
+ */
+export async function forgetFacts(notesFolderPath: string, query: string, tool: string, requireApproval?: boolean): Promise<MemoryUpdate> {
+  const existing = await readMemory(notesFolderPath)
+  const normalizedQuery = normalize(query)
+  if (!normalizedQuery) {
+    return { entries: [] }
+  }
+
+  const matches = (entry: MemoryEntry) =>
+    normalize(entry.text).includes(normalizedQuery) || similarity(entry.text, query) >= 0.5
+
+  const removed = existing.filter(matches)
+  if (removed.length === 0) {
+    return { entries: [] }
+  }
+
+  const pendingChange = await commitMemory(notesFolderPath, existing.filter(entry => !matches(entry)), tool, requireApproval)
+  return { entries: removed, pendingChange }
+}
+
+/**
+ * Formats the memory as a system prompt section
+ */
+export function formatMemoryForPrompt(entries: MemoryEntry[]): string {
+  if (entries.length === 0) {
+    return ''
+  }
+
+  const sections = MEMORY_CATEGORIES
+    .filter(category => entries.some(entry => entry.category === category))
+    .map(category => `### ${CATEGORY_HEADINGS[category]}\n` + entries
+      .filter(entry => entry.category === category)
+      .map(entry => `- ${entry.text}${entry.date ? ` (${entry.date})` : ''}`)
+      .join('\n'))
+
+  return sections.join('\n\n')
+}
+
+/**
+ * Asks the model for durable facts worth remembering from a conversation.
+ * Returns an empty list if the model does not answer with valid JSON.
+ */
+export async function extractMemories(
+  model: LanguageModel,
+  transcript: Array<{ role: string; content: string }>,
+  existing: MemoryEntry[],
+): Promise<Array<{ category: MemoryCategory; text: string }>> {
+  const conversation = transcript
+    .filter(message => (message.role === 'user' || message.role === 'assistant') && message.content.trim())
+    .map(message => `${message.role === 'user' ? 'User' : 'Coach'}: ${message.content}`)
+    .join('\n\n')
+
+  if (!conversation) {
+    return []
+  }
+
+  const { text } = await generateText({
+    model,
+    temperature: 0,
+    system: `You maintain the long-term memory of OpenCoach, a personal coaching assistant.
+From the conversation, extract durable facts about the user that will still matter in future conversations:
+- "goal": goals the user is working towards
+- "preference": how the user likes to work or be coached
+- "commitment": things the user committed to do, with dates when given
+- "obstacle": obstacles or struggles the user mentioned
+- "fact": other lasting facts about the user's life or work
+
+Ignore small talk, one-off requests and anything already in the existing memory. Write each fact as one short sentence in the third person ("Wants to ...").
+Answer with a single JSON object and nothing else: {"memories": [{"category": "goal", "text": "..."}]}. Use an empty list if there is nothing worth remembering.`,
+    prompt: `Existing memory:\n${formatMemoryForPrompt(existing) || '(empty)'}\n\nConversation:\n${conversation}`,
+  })
+
+  const jsonStart = text.indexOf('{')
+  const jsonEnd = text.lastIndexOf('}')
+  if (jsonStart === -1 || jsonEnd < jsonStart) {
+    return []
+  }
+
+  try {
+    const parsed = JSON.parse(text.substring(jsonStart, jsonEnd + 1))
+    if (!Array.isArray(parsed?.memories)) {
+      return []
+    }
+    return parsed.memories
+      .filter((memory: any) => typeof memory?.text === 'string' && memory.text.trim())
+      .map((memory: any) => ({ category: isMemoryCategory(memory.category) ? memory.category : 'fact', text: memory.text.trim() }))
+  } catch {
+    return []
+  }
+}
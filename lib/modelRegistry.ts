@@ -0,0 +1,193 @@
+// Model registry
+// Merges the built-in models of lib/models.ts with the user's models.json, for
+// example LM Studio, vLLM or llama.cpp servers that speak the OpenAI API:
+//
+//   {
+//     "models": [
+//       {
+//         "id": "lmstudio-qwen",
+//         "name": "Qwen 2.5 7B (LM Studio)",
+//         "provider": "openai-compatible",
+//         "modelId": "qwen2.5-7b-instruct",
+//         "baseURL": "http://localhost:1234/v1",
+//         "apiKeyEnv": "LMSTUDIO_API_KEY",
+//         "isLocal": true,
+//         "contextWindow": 32768,
+//         "capabilities": { "tools": false, "streaming": true }
+//       }
+//     ]
+//   }
+//
+// The file is ~/.opencoach/models.json, or the path in OPENCOACH_MODELS_FILE.
+// A user entry with the id of a built-in model replaces it. API keys are never
+// stored in the file, only the name of the environment variable that holds them.
+
+import { readFile, stat } from 'fs/promises'
+import { homedir } from 'os'
+import { join } from 'path'
+import { AVAILABLE_MODELS, MODEL_PROVIDERS, type ModelCapabilities, type ModelConfig, type ModelProvider } from '@/lib/models'
+import { withOllamaDiscovery } from '@/lib/ollama'
+
+export interface UserModels {
+  path: string
+  models: ModelConfig[]
+  errors: string[]  // Entries that were skipped, and why
+}
+
+export type ModelValidation =
+  | { ok: true; model: ModelConfig }
+  | { ok: false; error: string }
+
+// Cache of the parsed file, invalidated when its mtime changes
+let cache: { path: string; mtimeMs: number; result: UserModels } | null = null
+
+/**
+ * Returns the path of the user's models.json
+ */
+export function getModelsFilePath(): string {
+  return process.env.OPENCOACH_MODELS_FILE?.trim() || join(homedir(), '.opencoach', 'models.json')
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+/**
+ * Validates one entry of models.json
+ */
+export function validateUserModel(input: unknown): ModelValidation {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, error: 'each model must be an object' }
+  }
+  const raw = input as Record<string, any>
+
+  const id = typeof raw.id === 'string' ? raw.id.trim() : ''
+  if (!id) {
+    return { ok: false, error: 'id is required' }
+  }
+  if (!MODEL_PROVIDERS.includes(raw.provider)) {
+    return { ok: false, error: `${id}: provider must be one of ${MODEL_PROVIDERS.join(', ')}` }
+  }
+  const provider = raw.provider as ModelProvider
+  if (typeof raw.modelId !== 'string' || !raw.modelId.trim()) {
+    return { ok: false, error: `${id}: modelId is required` }
+  }
+  if (raw.baseURL !== undefined && (typeof raw.baseURL !== 'string' || !/^https?:\/\//i.test(raw.baseURL))) {
+    return { ok: false, error: `${id}: baseURL must be an http(s) URL` }
+  }
+  if (provider === 'openai-compatible' && !raw.baseURL) {
+    return { ok: false, error: `${id}: baseURL is required for openai-compatible models` }
+  }
+  if (raw.apiKeyEnv !== undefined && (typeof raw.apiKeyEnv !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(raw.apiKeyEnv))) {
+    return { ok: false, error: `${id}: apiKeyEnv must be the name of an environment variable, not the key itself` }
+  }
+  for (const key of ['contextWindow', 'maxOutputTokens'] as const) {
+    if (raw[key] !== undefined && !isPositiveInteger(raw[key])) {
+      return { ok: false, error: `${id}: ${key} must be a positive integer` }
+    }
+  }
+
+  let capabilities: ModelCapabilities | undefined
+  if (raw.capabilities !== undefined) {
+    if (!raw.capabilities || typeof raw.capabilities !== 'object' || Array.isArray(raw.capabilities)) {
+      return { ok: false, error: `${id}: capabilities must be an object` }
+    }
+    capabilities = {}
+    for (const key of ['tools', 'systemPrompt', 'streaming', 'outputLimit', 'vision'] as const) {
+      const value = raw.capabilities[key]
+      if (value === undefined) continue
+      if (typeof value !== 'boolean') {
+        return { ok: false, error: `${id}: capabilities.${key} must be true or false` }
+      }
+      capabilities[key] = value
+    }
+    const temperature = raw.capabilities.temperature
+    if (temperature !== undefined) {
+      if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+        return { ok: false, error: `${id}: capabilities.temperature must be a number from 0 to 2` }
+      }
+      capabilities.temperature = temperature
+    }
+  }
+
+  return {
+    ok: true,
+    model: {
+      id,
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : id,
+      provider,
+      modelId: raw.modelId.trim(),
+      ...(raw.baseURL && { baseURL: raw.baseURL.replace(/\/+$/, '') }),
+      ...(raw.apiKeyEnv && { apiKeyEnv: raw.apiKeyEnv }),
+      ...((raw.isLocal === true || provider === 'ollama') && { isLocal: true }),
+      ...(raw.contextWindow && { contextWindow: raw.contextWindow }),
+      ...(raw.maxOutputTokens && { maxOutputTokens: raw.maxOutputTokens }),
+      ...(capabilities && { capabilities }),
+      source: 'user',
+    },
+  }
+}
+
+/**
+ * Reads the user's models.json. A missing file means no user models; invalid
+ * entries are skipped and reported in `errors`.
+ */
+export async function loadUserModels(): Promise<UserModels> {
+  const path = getModelsFilePath()
+
+  let mtimeMs: number
+  try {
+    mtimeMs = (await stat(path)).mtimeMs
+  } catch {
+    return { path, models: [], errors: [] }
+  }
+  if (cache && cache.path === path && cache.mtimeMs === mtimeMs) {
+    return cache.result
+  }
+
+  const result: UserModels = { path, models: [], errors: [] }
+  try {
+    const raw = await readFile(path, 'utf-8')
+    const parsed = raw.trim() ? JSON.parse(raw) : {}
+    const entries = Array.isArray(parsed) ? parsed : parsed?.models
+    if (!Array.isArray(entries)) {
+      result.errors.push('models.json must contain a "models" list')
+    } else {
+      for (const entry of entries) {
+        const validation = validateUserModel(entry)
+        if (!validation.ok) {
+          result.errors.push(validation.error)
+        } else if (result.models.some(model => model.id === validation.model.id)) {
+          result.errors.push(`${validation.model.id}: duplicate id`)
+        } else {
+          result.models.push(validation.model)
+        }
+      }
+    }
+  } catch (error) {
+    result.errors.push(`Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  if (result.errors.length > 0) {
+    console.warn(`[Models] Skipped invalid entries in ${path}:`, result.errors.join('; '))
+  }
+  cache = { path, mtimeMs, result }
+  return result
+}
+
+/**
+ * Returns the built-in models merged with the user's models and the models
+ * installed in Ollama. Ollama models that can't run are marked unavailable.
+ */
+export async function getAvailableModels(): Promise<ModelConfig[]> {
+  const { models: userModels } = await loadUserModels()
+  const builtIn = AVAILABLE_MODELS.filter(model => !userModels.some(userModel => userModel.id === model.id))
+  return withOllamaDiscovery([...builtIn, ...userModels])
+}
+
+/**
+ * Looks up a model by id among the built-in and user models
+ */
+export async function findModel(id: string): Promise<ModelConfig | undefined> {
+  return (await getAvailableModels()).find(model => model.id === id)
+}
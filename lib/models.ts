@@ -1,99 +1,183 @@
 // Available models configuration for Vercel AI SDK
-// Each model entry includes provider, model ID, and display name
+// Each model entry includes provider, model ID, and display name.
+// These are the built-in models; lib/modelRegistry.ts adds the models of the
+// user's models.json on the server.
+
+export type ModelProvider = 'openai' | 'anthropic' | 'google' | 'mistral' | 'ollama' | 'openai-compatible'
+
+export const MODEL_PROVIDERS: ModelProvider[] = ['openai', 'anthropic', 'google', 'mistral', 'ollama', 'openai-compatible']
+
+// What a model supports, each true unless set otherwise. Decides the options
+// the chat route calls it with (lib/capabilities.ts adapts the calls).
+export interface ModelCapabilities {
+  tools?: boolean  // Supports tool calls; without, the chat runs in text-only mode
+  systemPrompt?: boolean  // Accepts a system prompt; without, it is sent as the first user message
+  temperature?: number  // The only temperature the model accepts, e.g. 1 for o1 and o3 models
+  streaming?: boolean  // Streams responses; without, the response arrives in one piece
+  outputLimit?: boolean  // Accepts a limit on output tokens (maxOutputTokens)
+  vision?: boolean  // Accepts images, false unless set
+}
+
+export interface ResolvedCapabilities {
+  tools: boolean
+  systemPrompt: boolean
+  temperature?: number
+  streaming: boolean
+  outputLimit: boolean
+  vision: boolean
+}
 
 export interface ModelConfig {
   id: string
   name: string
-  provider: 'openai' | 'anthropic' | 'google' | 'mistral' | 'ollama'
+  provider: ModelProvider
   modelId: string
-  baseURL?: string  // For custom endpoints like Ollama
+  baseURL?: string  // For custom endpoints like Ollama or OpenAI-compatible servers
+  apiKeyEnv?: string  // Environment variable holding the API key of a custom endpoint
   isLocal?: boolean  // Indicates if this is a local model
+  contextWindow?: number  // Maximum tokens for prompt and response together
+  maxOutputTokens?: number  // Maximum tokens the model can generate in one response
+  capabilities?: ModelCapabilities
+  source?: 'user' | 'ollama'  // Defined in models.json, or discovered in Ollama
+  available?: boolean  // False when the model is known to be missing, e.g. not pulled in Ollama
+  unavailableReason?: string
+  details?: ModelDetails
 }
 
+// What Ollama reports about an installed model
+export interface ModelDetails {
+  sizeBytes?: number
+  family?: string
+  parameterSize?: string  // e.g. "8.0B"
+  quantization?: string  // e.g. "Q4_0"
+}
+
+// Used for models without context limit metadata
+export const DEFAULT_CONTEXT_WINDOW = 8192
+export const DEFAULT_MAX_OUTPUT_TOKENS = 2048
+
+// Ollama truncates prompts to its configured context length (OLLAMA_CONTEXT_LENGTH),
+// not to what the model supports, so local models use a conservative window
+export const OLLAMA_CONTEXT_WINDOW = 8192
+export const OLLAMA_MAX_OUTPUT_TOKENS = 2048
+
+// o1 models can't call tools or take a system prompt, and only accept temperature 1.
+// They reject max_tokens (they expect max_completion_tokens).
+const O1_CAPABILITIES: ModelCapabilities = { tools: false, systemPrompt: false, temperature: 1, outputLimit: false }
+
 export const AVAILABLE_MODELS: ModelConfig[] = [
   // OpenAI Models
-  { id: 'openai-gpt-4o', name: 'OpenAI GPT-4o', provider: 'openai', modelId: 'gpt-4o' },
-  { id: 'openai-gpt-4o-mini', name: 'OpenAI GPT-4o Mini', provider: 'openai', modelId: 'gpt-4o-mini' },
-  { id: 'openai-gpt-4-turbo', name: 'OpenAI GPT-4 Turbo', provider: 'openai', modelId: 'gpt-4-turbo' },
-  { id: 'openai-gpt-4', name: 'OpenAI GPT-4', provider: 'openai', modelId: 'gpt-4' },
-  { id: 'openai-gpt-3.5-turbo', name: 'OpenAI GPT-3.5 Turbo', provider: 'openai', modelId: 'gpt-3.5-turbo' },
-  { id: 'openai-o1-preview', name: 'OpenAI O1 Preview', provider: 'openai', modelId: 'o1-preview' },
-  { id: 'openai-o1-mini', name: 'OpenAI O1 Mini', provider: 'openai', modelId: 'o1-mini' },
-  { id: 'openai-o3-mini', name: 'OpenAI O3 Mini', provider: 'openai', modelId: 'o3-mini' },
+  { id: 'openai-gpt-4o', name: 'OpenAI GPT-4o', provider: 'openai', modelId: 'gpt-4o', contextWindow: 128000, maxOutputTokens: 16384, capabilities: { vision: true } },
+  { id: 'openai-gpt-4o-mini', name: 'OpenAI GPT-4o Mini', provider: 'openai', modelId: 'gpt-4o-mini', contextWindow: 128000, maxOutputTokens: 16384, capabilities: { vision: true } },
+  { id: 'openai-gpt-4-turbo', name: 'OpenAI GPT-4 Turbo', provider: 'openai', modelId: 'gpt-4-turbo', contextWindow: 128000, maxOutputTokens: 4096, capabilities: { vision: true } },
+  { id: 'openai-gpt-4', name: 'OpenAI GPT-4', provider: 'openai', modelId: 'gpt-4', contextWindow: 8192, maxOutputTokens: 4096 },
+  { id: 'openai-gpt-3.5-turbo', name: 'OpenAI GPT-3.5 Turbo', provider: 'openai', modelId: 'gpt-3.5-turbo', contextWindow: 16385, maxOutputTokens: 4096 },
+  { id: 'openai-o1-preview', name: 'OpenAI O1 Preview', provider: 'openai', modelId: 'o1-preview', contextWindow: 128000, maxOutputTokens: 32768, capabilities: O1_CAPABILITIES },
+  { id: 'openai-o1-mini', name: 'OpenAI O1 Mini', provider: 'openai', modelId: 'o1-mini', contextWindow: 128000, maxOutputTokens: 65536, capabilities: O1_CAPABILITIES },
+  { id: 'openai-o3-mini', name: 'OpenAI O3 Mini', provider: 'openai', modelId: 'o3-mini', contextWindow: 200000, maxOutputTokens: 100000, capabilities: { temperature: 1, outputLimit: false } },
   
   // Anthropic Models
-  { id: 'anthropic-claude-3-5-sonnet-20241022', name: 'Anthropic Claude 3.5 Sonnet', provider: 'anthropic', modelId: 'claude-3-5-sonnet-20241022' },
-  { id: 'anthropic-claude-3-5-haiku-20241022', name: 'Anthropic Claude 3.5 Haiku', provider: 'anthropic', modelId: 'claude-3-5-haiku-20241022' },
-  { id: 'anthropic-claude-3-opus-20240229', name: 'Anthropic Claude 3 Opus', provider: 'anthropic', modelId: 'claude-3-opus-20240229' },
-  { id: 'anthropic-claude-3-sonnet-20240229', name: 'Anthropic Claude 3 Sonnet', provider: 'anthropic', modelId: 'claude-3-sonnet-20240229' },
-  { id: 'anthropic-claude-3-haiku-20240307', name: 'Anthropic Claude 3 Haiku', provider: 'anthropic', modelId: 'claude-3-haiku-20240307' },
+  { id: 'anthropic-claude-3-5-sonnet-20241022', name: 'Anthropic Claude 3.5 Sonnet', provider: 'anthropic', modelId: 'claude-3-5-sonnet-20241022', contextWindow: 200000, maxOutputTokens: 8192, capabilities: { vision: true } },
+  { id: 'anthropic-claude-3-5-haiku-20241022', name: 'Anthropic Claude 3.5 Haiku', provider: 'anthropic', modelId: 'claude-3-5-haiku-20241022', contextWindow: 200000, maxOutputTokens: 8192 },
+  { id: 'anthropic-claude-3-opus-20240229', name: 'Anthropic Claude 3 Opus', provider: 'anthropic', modelId: 'claude-3-opus-20240229', contextWindow: 200000, maxOutputTokens: 4096, capabilities: { vision: true } },
+  { id: 'anthropic-claude-3-sonnet-20240229', name: 'Anthropic Claude 3 Sonnet', provider: 'anthropic', modelId: 'claude-3-sonnet-20240229', contextWindow: 200000, maxOutputTokens: 4096, capabilities: { vision: true } },
+  { id: 'anthropic-claude-3-haiku-20240307', name: 'Anthropic Claude 3 Haiku', provider: 'anthropic', modelId: 'claude-3-haiku-20240307', contextWindow: 200000, maxOutputTokens: 4096, capabilities: { vision: true } },
   
   // Google Models
-  { id: 'google-gemini-2.0-flash-exp', name: 'Google Gemini 2.0 Flash (Experimental)', provider: 'google', modelId: 'gemini-2.0-flash-exp' },
-  { id: 'google-gemini-1.5-pro', name: 'Google Gemini 1.5 Pro', provider: 'google', modelId: 'gemini-1.5-pro' },
-  { id: 'google-gemini-1.5-flash', name: 'Google Gemini 1.5 Flash', provider: 'google', modelId: 'gemini-1.5-flash' },
-  { id: 'google-gemini-pro', name: 'Google Gemini Pro', provider: 'google', modelId: 'gemini-pro' },
+  { id: 'google-gemini-2.0-flash-exp', name: 'Google Gemini 2.0 Flash (Experimental)', provider: 'google', modelId: 'gemini-2.0-flash-exp', contextWindow: 1048576, maxOutputTokens: 8192, capabilities: { vision: true } },
+  { id: 'google-gemini-1.5-pro', name: 'Google Gemini 1.5 Pro', provider: 'google', modelId: 'gemini-1.5-pro', contextWindow: 2097152, maxOutputTokens: 8192, capabilities: { vision: true } },
+  { id: 'google-gemini-1.5-flash', name: 'Google Gemini 1.5 Flash', provider: 'google', modelId: 'gemini-1.5-flash', contextWindow: 1048576, maxOutputTokens: 8192, capabilities: { vision: true } },
+  { id: 'google-gemini-pro', name: 'Google Gemini Pro', provider: 'google', modelId: 'gemini-pro', contextWindow: 32760, maxOutputTokens: 2048 },
   
   // Mistral Models
-  { id: 'mistral-large-latest', name: 'Mistral Large', provider: 'mistral', modelId: 'mistral-large-latest' },
-  { id: 'mistral-medium-latest', name: 'Mistral Medium', provider: 'mistral', modelId: 'mistral-medium-latest' },
-  { id: 'mistral-small-latest', name: 'Mistral Small', provider: 'mistral', modelId: 'mistral-small-latest' },
+  { id: 'mistral-large-latest', name: 'Mistral Large', provider: 'mistral', modelId: 'mistral-large-latest', contextWindow: 131072, maxOutputTokens: 4096 },
+  { id: 'mistral-medium-latest', name: 'Mistral Medium', provider: 'mistral', modelId: 'mistral-medium-latest', contextWindow: 131072, maxOutputTokens: 4096 },
+  { id: 'mistral-small-latest', name: 'Mistral Small', provider: 'mistral', modelId: 'mistral-small-latest', contextWindow: 32768, maxOutputTokens: 4096 },
   
   // Ollama Models (Local)
   // Note: These require Ollama to be installed and running locally (ollama.ai)
-  // The baseURL points to Ollama's OpenAI-compatible API endpoint
+  // Without a baseURL they use OLLAMA_BASE_URL or http://localhost:11434/v1 (lib/ollama.ts).
+  // Installed models that are not listed here are discovered at runtime.
   { 
     id: 'ollama-llama3.2', 
     name: 'Llama 3.2 (Local)', 
     provider: 'ollama', 
     modelId: 'llama3.2',
-    baseURL: 'http://localhost:11434/v1',
-    isLocal: true
+    isLocal: true,
+    contextWindow: OLLAMA_CONTEXT_WINDOW,
+    maxOutputTokens: OLLAMA_MAX_OUTPUT_TOKENS
   },
   { 
     id: 'ollama-llama3.1', 
     name: 'Llama 3.1 (Local)', 
     provider: 'ollama', 
     modelId: 'llama3.1',
-    baseURL: 'http://localhost:11434/v1',
-    isLocal: true
+    isLocal: true,
+    contextWindow: OLLAMA_CONTEXT_WINDOW,
+    maxOutputTokens: OLLAMA_MAX_OUTPUT_TOKENS
   },
   { 
     id: 'ollama-mistral', 
     name: 'Mistral 7B (Local)', 
     provider: 'ollama', 
     modelId: 'mistral',
-    baseURL: 'http://localhost:11434/v1',
-    isLocal: true
+    isLocal: true,
+    contextWindow: OLLAMA_CONTEXT_WINDOW,
+    maxOutputTokens: OLLAMA_MAX_OUTPUT_TOKENS
   },
   { 
     id: 'ollama-codellama', 
     name: 'Code Llama (Local)', 
     provider: 'ollama', 
     modelId: 'codellama',
-    baseURL: 'http://localhost:11434/v1',
-    isLocal: true
+    isLocal: true,
+    contextWindow: OLLAMA_CONTEXT_WINDOW,
+    maxOutputTokens: OLLAMA_MAX_OUTPUT_TOKENS,
+    capabilities: { tools: false }  // Ollama rejects tools for this model
   },
   { 
     id: 'ollama-phi3', 
     name: 'Phi-3 (Local)', 
     provider: 'ollama', 
     modelId: 'phi3',
-    baseURL: 'http://localhost:11434/v1',
-    isLocal: true
+    isLocal: true,
+    contextWindow: OLLAMA_CONTEXT_WINDOW,
+    maxOutputTokens: OLLAMA_MAX_OUTPUT_TOKENS,
+    capabilities: { tools: false }  // Ollama rejects tools for this model
   },
   { 
     id: 'ollama-gemma2', 
     name: 'Gemma 2 (Local)', 
     provider: 'ollama', 
     modelId: 'gemma2',
-    baseURL: 'http://localhost:11434/v1',
-    isLocal: true
+    isLocal: true,
+    contextWindow: OLLAMA_CONTEXT_WINDOW,
+    maxOutputTokens: OLLAMA_MAX_OUTPUT_TOKENS,
+    capabilities: { tools: false }  // Ollama rejects tools for this model
   },
 ]
 
 export const DEFAULT_MODEL = 'openai-gpt-4o-mini'
 
+/**
+ * Returns the capabilities of a model, with the defaults filled in
+ */
+export function getModelCapabilities(model?: ModelConfig): ResolvedCapabilities {
+  const capabilities = model?.capabilities || {}
+  return {
+    tools: capabilities.tools !== false,
+    systemPrompt: capabilities.systemPrompt !== false,
+    ...(capabilities.temperature !== undefined && { temperature: capabilities.temperature }),
+    streaming: capabilities.streaming !== false,
+    outputLimit: capabilities.outputLimit !== false,
+    vision: capabilities.vision === true,
+  }
+}
+
+/**
+ * Looks up a built-in model. On the server, use findModel from lib/modelRegistry.ts,
+ * which also knows the user's models.
+ */
 export function getModelById(id: string): ModelConfig | undefined {
   return AVAILABLE_MODELS.find(model => model.id === id)
 }
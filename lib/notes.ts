@@ -0,0 +1,128 @@
+import { readdir, readFile, stat } from 'fs/promises'
+import { isAbsolute, join, relative, resolve, sep } from 'path'
+import { loadIgnoreMatcher, type IgnoreMatcher } from '@/lib/ignore'
+
+export interface NoteFile {
+  name: string
+  path: string
+  relativePath: string  // Relative to the folder that was traversed, always with forward slashes
+  mtime: Date
+  content: string
+}
+
+export type NoteFileInfo = Omit<NoteFile, 'content'>
+
+export interface TraversalOptions {
+  maxDepth?: number  // 0 reads only the top-level folder
+}
+
+export const NOTE_FILE_EXTENSIONS = ['.md', '.txt', '.markdown', '.mdx']
+
+export const DEFAULT_MAX_DEPTH = 8
+
+/**
+ * Returns the traversal depth from OPENCOACH_NOTES_MAX_DEPTH, or the default
+ */
+export function getConfiguredMaxDepth(): number {
+  const configured = parseInt(process.env.OPENCOACH_NOTES_MAX_DEPTH || '', 10)
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_MAX_DEPTH
+}
+
+/**
+ * Returns true if the file name has one of the supported note extensions
+ */
+export function isNoteFile(fileName: string): boolean {
+  const dotIndex = fileName.lastIndexOf('.')
+  if (dotIndex === -1) return false
+  return NOTE_FILE_EXTENSIONS.includes(fileName.substring(dotIndex).toLowerCase())
+}
+
+async function walkFolder(
+  folderPath: string,
+  relativeDir: string,
+  depth: number,
+  maxDepth: number,
+  matcher: IgnoreMatcher,
+  files: NoteFileInfo[],
+): Promise<void> {
+  let entries: string[]
+  try {
+    entries = await readdir(join(folderPath, relativeDir))
+  } catch (error) {
+    if (depth === 0) throw new Error(`Failed to read folder: ${error}`)
+    console.error(`Error reading folder ${relativeDir}:`, error)
+    return
+  }
+
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry}` : entry
+    const fullPath = join(folderPath, relativePath)
+
+    try {
+      const stats = await stat(fullPath)
+
+      if (stats.isDirectory()) {
+        if (depth < maxDepth && !matcher.ignores(relativePath, true)) {
+          await walkFolder(folderPath, relativePath, depth + 1, maxDepth, matcher, files)
+        }
+      } else if (stats.isFile() && isNoteFile(entry) && !matcher.ignores(relativePath, false)) {
+        files.push({
+          name: entry,
+          path: fullPath,
+          relativePath,
+          mtime: stats.mtime,
+        })
+      }
+    } catch (statError) {
+      console.error(`Error getting stats for ${relativePath}:`, statError)
+    }
+  }
+}
+
+/**
+ * Lists note files in a folder and its subfolders without reading them,
+ * honouring the default ignore list and the folder's `.opencoachignore`
+ */
+export async function listNoteFiles(folderPath: string, options: TraversalOptions = {}): Promise<NoteFileInfo[]> {
+  const maxDepth = options.maxDepth ?? getConfiguredMaxDepth()
+  const matcher = await loadIgnoreMatcher(folderPath)
+  const files: NoteFileInfo[] = []
+
+  await walkFolder(folderPath, '', 0, maxDepth, matcher, files)
+
+  return files
+}
+
+/**
+ * Reads all note files (.md, .txt, ...) from a folder and its subfolders
+ */
+export async function readNotesFromFolder(folderPath: string, options: TraversalOptions = {}): Promise<NoteFile[]> {
+  const files = await listNoteFiles(folderPath, options)
+  const notes: NoteFile[] = []
+
+  for (const file of files) {
+    try {
+      const content = await readFile(file.path, 'utf-8')
+      notes.push({ ...file, content })
+    } catch (readError) {
+      console.error(`Error reading file ${file.relativePath}:`, readError)
+    }
+  }
+
+  return notes
+}
+
+/**
+ * Resolves a note path (absolute, or relative to the notes folder) and returns
+ * null if it points outside the notes folder
+ */
+export function resolveNotePath(folderPath: string, filePath: string): string | null {
+  const root = resolve(folderPath)
+  const target = isAbsolute(filePath) ? resolve(filePath) : resolve(root, filePath)
+  const relativeToRoot = relative(root, target)
+
+  if (relativeToRoot === '..' || relativeToRoot.startsWith(`..${sep}`) || isAbsolute(relativeToRoot)) {
+    return null
+  }
+  return target
+}
@@ -0,0 +1,154 @@
+// Ollama discovery
+// Lists the models installed in Ollama (GET /api/tags) so the picker shows what
+// can actually run: installed models missing from lib/models.ts are added, and
+// listed models that are not pulled, or whose Ollama is not running, are marked
+// unavailable instead of failing mid-chat.
+//
+// The host of a model is its baseURL, else OLLAMA_BASE_URL, else localhost.
+
+import { OLLAMA_CONTEXT_WINDOW, OLLAMA_MAX_OUTPUT_TOKENS, type ModelConfig, type ModelDetails } from '@/lib/models'
+
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434/v1'
+
+export interface OllamaModel {
+  name: string  // e.g. "llama3.1:latest"
+  details: ModelDetails
+}
+
+export type OllamaModelsResult =
+  | { ok: true; models: OllamaModel[] }
+  | { ok: false; error: string }
+
+// Ollama answers immediately when running, a short timeout keeps the picker responsive
+const TAGS_TIMEOUT_MS = 2000
+// Installed models change rarely, and findModel runs on every chat request
+const TAGS_CACHE_MS = 15 * 1000
+
+const tagsCache = new Map<string, { fetchedAt: number; result: OllamaModelsResult }>()
+
+/**
+ * Returns the OpenAI-compatible base URL (ending in /v1) of the Ollama serving a model
+ */
+export function getOllamaBaseURL(modelConfig?: Pick<ModelConfig, 'baseURL'>): string {
+  const baseURL = modelConfig?.baseURL || process.env.OLLAMA_BASE_URL?.trim() || DEFAULT_OLLAMA_BASE_URL
+  return baseURL.replace(/\/+$/, '')
+}
+
+/**
+ * Returns the Ollama host of a base URL, where its native API (/api/tags) lives
+ */
+export function getOllamaHost(baseURL: string): string {
+  return baseURL.replace(/\/+$/, '').replace(/\/v1$/, '')
+}
+
+/**
+ * Ollama resolves a name without a tag to ":latest"
+ */
+export function normalizeOllamaModelName(name: string): string {
+  return name.trim().replace(/:latest$/, '')
+}
+
+/**
+ * Lists the models installed in the Ollama at a base URL. Results are cached
+ * for a few seconds, failures too.
+ */
+export async function listOllamaModels(baseURL: string = getOllamaBaseURL()): Promise<OllamaModelsResult> {
+  const host = getOllamaHost(baseURL)
+  const cached = tagsCache.get(host)
+  if (cached && Date.now() - cached.fetchedAt < TAGS_CACHE_MS) {
+    return cached.result
+  }
+
+  let result: OllamaModelsResult
+  try {
+    const response = await fetch(`${host}/api/tags`, { signal: AbortSignal.timeout(TAGS_TIMEOUT_MS) })
+    if (!response.ok) {
+      result = { ok: false, error: `Ollama at ${host} returned ${response.status}` }
+    } else {
+      const json = await response.json()
+      const models: OllamaModel[] = (Array.isArray(json?.models) ? json.models : [])
+        .filter((model: any) => typeof model?.name === 'string')
+        .map((model: any) => ({
+          name: model.name,
+          details: {
+            ...(typeof model.size === 'number' && { sizeBytes: model.size }),
+            ...(typeof model.details?.family === 'string' && { family: model.details.family }),
+            ...(typeof model.details?.parameter_size === 'string' && { parameterSize: model.details.parameter_size }),
+            ...(typeof model.details?.quantization_level === 'string' && { quantization: model.details.quantization_level }),
+          },
+        }))
+      result = { ok: true, models }
+    }
+  } catch {
+    result = { ok: false, error: `Ollama is not running at ${host}. Start it with \`ollama serve\`.` }
+  }
+
+  tagsCache.set(host, { fetchedAt: Date.now(), result })
+  return result
+}
+
+function findInstalled(installed: OllamaModel[], modelId: string): OllamaModel | undefined {
+  const wanted = normalizeOllamaModelName(modelId)
+  return installed.find(model => normalizeOllamaModelName(model.name) === wanted)
+}
+
+/**
+ * Marks the Ollama models of a list as available or not, and appends the
+ * models installed in the default Ollama that the list doesn't have yet
+ */
+export async function withOllamaDiscovery(models: ModelConfig[]): Promise<ModelConfig[]> {
+  const defaultBaseURL = getOllamaBaseURL()
+  const baseURLs = new Set([defaultBaseURL, ...models.filter(model => model.provider === 'ollama').map(model => getOllamaBaseURL(model))])
+
+  const listings = new Map<string, OllamaModelsResult>()
+  await Promise.all(Array.from(baseURLs).map(async baseURL => {
+    listings.set(baseURL, await listOllamaModels(baseURL))
+  }))
+
+  const result = models.map(model => {
+    if (model.provider !== 'ollama') return model
+
+    const listing = listings.get(getOllamaBaseURL(model))!
+    if (!listing.ok) {
+      return { ...model, available: false, unavailableReason: listing.error }
+    }
+    const installed = findInstalled(listing.models, model.modelId)
+    if (!installed) {
+      return { ...model, available: false, unavailableReason: `${model.modelId} is not installed in Ollama. Run \`ollama pull ${model.modelId}\`.` }
+    }
+    return { ...model, available: true, details: installed.details }
+  })
+
+  const defaultListing = listings.get(defaultBaseURL)!
+  if (defaultListing.ok) {
+    for (const installed of defaultListing.models) {
+      const name = normalizeOllamaModelName(installed.name)
+      const known = result.some(model =>
+        model.id === `ollama-${name}` ||
+        (model.provider === 'ollama' && getOllamaBaseURL(model) === defaultBaseURL && normalizeOllamaModelName(model.modelId) === name))
+      if (known) continue
+
+      result.push({
+        id: `ollama-${name}`,
+        name: `${name} (Local)`,
+        provider: 'ollama',
+        modelId: installed.name,
+        isLocal: true,
+        contextWindow: OLLAMA_CONTEXT_WINDOW,
+        maxOutputTokens: OLLAMA_MAX_OUTPUT_TOKENS,
+        source: 'ollama',
+        available: true,
+        details: installed.details,
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Formats a model size for the picker, e.g. "4.7 GB"
+ */
+export function formatModelSize(sizeBytes: number): string {
+  return sizeBytes >= 1e9 ? `${(sizeBytes / 1e9).toFixed(1)} GB` : `${Math.round(sizeBytes / 1e6)} MB`
+}
@@ -0,0 +1,206 @@
+// Coach persona of a space
+// COACH.md at the root of the space defines who the coach is. Its frontmatter
+// sets the name, tone and coaching method, the body holds free-form
+// instructions and a `## Rules` section lists hard rules:
+//
+//   ---
+//   name: Sam
+//   tone: warm but direct
+//   method: GROW
+//   ---
+//   You coach a first-time manager. Keep answers short.
+//
+//   ## Rules
+//   - Never give medical advice
+//
+// Without COACH.md, the persona comes from the `persona` field of space.json,
+// or from the frontmatter of CONTEXT.md (`coach`, `tone`, `method` and a
+// `rules` list).
+
+import { readFile } from 'fs/promises'
+import fs from 'fs'
+import { join } from 'path'
+import { readSpaceSettings, SPACE_SETTINGS_FILE } from '@/lib/spaceSettings'
+
+export const COACH_FILE = 'COACH.md'
+export const CONTEXT_FILE = 'CONTEXT.md'
+
+export const DEFAULT_COACH_NAME = 'OpenCoach'
+
+export interface CoachPersona {
+  source: typeof COACH_FILE | typeof SPACE_SETTINGS_FILE | typeof CONTEXT_FILE
+  name: string
+  tone?: string
+  method?: string
+  instructions?: string
+  rules: string[]
+}
+
+// Short descriptions of well-known methods, so that naming one is enough
+const KNOWN_METHODS: Record<string, string> = {
+  grow: 'the GROW model: clarify the Goal, explore the current Reality, generate Options, then agree on the Way forward (what the user Will do and when)',
+  cbt: 'CBT-style reflection: help the user notice automatic thoughts, examine the evidence for and against them, and reframe them into balanced alternatives',
+  socratic: 'Socratic questioning: ask open questions that lead the user to their own insights instead of giving answers',
+  okr: 'OKRs: turn ambitions into objectives with a few measurable key results, and review progress against them',
+}
+
+const LIST_ITEM = /^\s*[-*+]\s+(.*)$/
+
+/**
+ * Splits a markdown file into its frontmatter fields and body. Fields are
+ * `key: value` lines; a key without value followed by list items is a list.
+ */
+function parseFrontmatter(content: string): { fields: Record<string, string | string[]>; body: string } {
+  const lines = content.replace(/\r\n/g, '\n').split('\n')
+  const fields: Record<string, string | string[]> = {}
+  if (lines[0]?.trim() !== '---') {
+    return { fields, body: content }
+  }
+
+  const end = lines.indexOf('---', 1)
+  if (end === -1) {
+    return { fields, body: content }
+  }
+
+  let listKey: string | null = null
+  for (const line of lines.slice(1, end)) {
+    const item = line.match(LIST_ITEM)
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1]))
+      continue
+    }
+
+    const separator = line.indexOf(':')
+    if (separator <= 0) continue
+    const key = line.substring(0, separator).trim().toLowerCase()
+    const value = line.substring(separator + 1).trim()
+    if (value) {
+      fields[key] = unquote(value)
+      listKey = null
+    } else {
+      fields[key] = []
+      listKey = key
+    }
+  }
+
+  return { fields, body: lines.slice(end + 1).join('\n') }
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2')
+}
+
+function getField(fields: Record<string, string | string[]>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = fields[key]
+    if (typeof value === 'string' && value) return value
+  }
+  return undefined
+}
+
+function getList(fields: Record<string, string | string[]>, key: string): string[] {
+  const value = fields[key]
+  return Array.isArray(value) ? value.filter(Boolean) : typeof value === 'string' && value ? [value] : []
+}
+
+/**
+ * Parses COACH.md. The `## Rules` section of the body is read as hard rules,
+ * the rest of the body as instructions.
+ */
+export function parseCoachFile(content: string): CoachPersona {
+  const { fields, body } = parseFrontmatter(content)
+  const rules = getList(fields, 'rules')
+  const instructions: string[] = []
+
+  let inRules = false
+  for (const line of body.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/)
+    if (heading) {
+      inRules = /^(hard )?rules$/i.test(heading[1].trim())
+      if (inRules) continue
+    }
+
+    const item = line.match(LIST_ITEM)
+    if (inRules) {
+      if (item && item[1].trim()) rules.push(item[1].trim())
+    } else {
+      instructions.push(line)
+    }
+  }
+
+  const text = instructions.join('\n').trim()
+  return {
+    source: COACH_FILE,
+    name: getField(fields, 'name', 'coach', 'persona') || DEFAULT_COACH_NAME,
+    tone: getField(fields, 'tone'),
+    method: getField(fields, 'method'),
+    instructions: text || undefined,
+    rules,
+  }
+}
+
+/**
+ * Reads the persona from the frontmatter of CONTEXT.md, or returns null if it
+ * does not set any persona field
+ */
+export function parseContextPersona(content: string): CoachPersona | null {
+  const { fields } = parseFrontmatter(content)
+  const name = getField(fields, 'coach', 'persona')
+  const tone = getField(fields, 'tone')
+  const method = getField(fields, 'method')
+  const rules = getList(fields, 'rules')
+  if (!name && !tone && !method && rules.length === 0) {
+    return null
+  }
+  return { source: CONTEXT_FILE, name: name || DEFAULT_COACH_NAME, tone, method, rules }
+}
+
+/**
+ * Reads the persona of a space: COACH.md first, then space.json, then the
+ * frontmatter of CONTEXT.md. Returns null when the space uses the default coach.
+ */
+export async function readCoachPersona(notesFolderPath: string): Promise<CoachPersona | null> {
+  const coachPath = join(notesFolderPath, COACH_FILE)
+  if (fs.existsSync(coachPath)) {
+    return parseCoachFile(await readFile(coachPath, 'utf-8'))
+  }
+
+  const { persona } = await readSpaceSettings(notesFolderPath)
+  if (persona && (persona.name || persona.tone || persona.method || persona.rules?.length)) {
+    return {
+      source: SPACE_SETTINGS_FILE,
+      name: persona.name || DEFAULT_COACH_NAME,
+      tone: persona.tone,
+      method: persona.method,
+      rules: Array.isArray(persona.rules) ? persona.rules : [],
+    }
+  }
+
+  const contextPath = join(notesFolderPath, CONTEXT_FILE)
+  if (fs.existsSync(contextPath)) {
+    return parseContextPersona(await readFile(contextPath, 'utf-8'))
+  }
+
+  return null
+}
+
+/**
+ * Formats the persona for the system prompt
+ */
+export function formatPersonaForPrompt(persona: CoachPersona): string {
+  const lines = [`\n\n## Your coaching persona (from ${persona.source}):\n`]
+  if (persona.tone) {
+    lines.push(`Tone: ${persona.tone}.`)
+  }
+  if (persona.method) {
+    lines.push(`Coaching method: ${KNOWN_METHODS[persona.method.trim().toLowerCase()] || persona.method}. Structure your coaching accordingly.`)
+  }
+  if (persona.instructions) {
+    lines.push('', persona.instructions)
+  }
+  if (persona.rules.length > 0) {
+    lines.push('', 'Hard rules. Always follow them, even if the user or other instructions ask otherwise:')
+    lines.push(...persona.rules.map(rule => `- ${rule}`))
+  }
+  return lines.join('\n')
+}
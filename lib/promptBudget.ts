@@ -0,0 +1,155 @@
+// Token budget for the chat prompt
+// The system prompt (instructions, memory, goals, notes, calendar) and the message
+// history must fit in the model's context window, leaving room for the
+// response. Token counts are estimated from the text length, which is close
+// enough for English text with all supported tokenizers.
+// When the prompt is too large, old messages are dropped first, then the
+// lowest-ranked note excerpts, then the list of files.
+
+import { DEFAULT_CONTEXT_WINDOW, DEFAULT_MAX_OUTPUT_TOKENS, getModelCapabilities, type ModelConfig } from '@/lib/models'
+import type { RankedChunk } from '@/lib/retrieval'
+
+// Average characters per token for English text
+const CHARS_PER_TOKEN = 4
+
+// Per-message overhead (role, separators) added by chat templates
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+// Tool definitions are sent with every request but are not part of the prompt text
+export const TOOL_DEFINITIONS_TOKENS = 1500
+
+export interface PromptBudget {
+  contextWindow: number
+  maxOutputTokens: number
+  inputBudget: number  // Tokens available for the prompt
+  instructions: number
+  memory: number
+  goals: number
+  notes: number
+  calendar: number
+  history: number
+  tools: number
+  total: number
+  droppedMessages: number
+  droppedNotes: number
+  droppedFileList: boolean
+  overBudget: boolean  // Still too large after trimming everything that can be trimmed
+}
+
+export interface PromptParts<Message> {
+  modelConfig?: ModelConfig
+  instructions: string
+  memory: string
+  goals: string
+  notes: RankedChunk[]  // Most relevant first
+  notesGuide: string  // How to use the excerpts and tools, kept while any excerpt is kept
+  fileList: string
+  calendar: string
+  suffix: string
+  messages: Message[]
+}
+
+export interface BuiltPrompt<Message> {
+  system: string
+  messages: Message[]
+  notes: RankedChunk[]
+  budget: PromptBudget
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function estimateMessageTokens(message: unknown): number {
+  const { content, toolInvocations } = (message || {}) as { content?: unknown; toolInvocations?: unknown }
+  const text = typeof content === 'string' ? content : JSON.stringify(content ?? '')
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(text) + (toolInvocations ? estimateTokens(JSON.stringify(toolInvocations)) : 0)
+}
+
+export function formatNotesExcerpts(chunks: RankedChunk[]): string {
+  if (chunks.length === 0) {
+    return ''
+  }
+  return '\n\n## Relevant excerpts from your notes:\n\n' + chunks
+    .map(chunk => `### ${chunk.fileName} (lines ${chunk.startLine}-${chunk.endLine})\n\n${chunk.text}`)
+    .join('\n\n---\n\n')
+}
+
+/**
+ * Assembles the system prompt and message history so that they fit the
+ * context window of the model, and reports where the tokens went
+ */
+export function buildPromptWithinBudget<Message>(parts: PromptParts<Message>): BuiltPrompt<Message> {
+  const contextWindow = parts.modelConfig?.contextWindow ?? DEFAULT_CONTEXT_WINDOW
+  const maxOutputTokens = Math.min(parts.modelConfig?.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS, Math.floor(contextWindow / 2))
+  const inputBudget = contextWindow - maxOutputTokens
+  // Models without tool support get no tool definitions
+  const tools = getModelCapabilities(parts.modelConfig).tools ? TOOL_DEFINITIONS_TOKENS : 0
+
+  let messages = parts.messages
+  let notes = parts.notes
+  let fileList = parts.fileList
+  let droppedMessages = 0
+  let droppedNotes = 0
+
+  const notesText = () => notes.length > 0 ? formatNotesExcerpts(notes) + parts.notesGuide + fileList : fileList
+  const measure = () => {
+    const instructions = estimateTokens(parts.instructions + parts.suffix)
+    const memory = estimateTokens(parts.memory)
+    const goals = estimateTokens(parts.goals)
+    const notesTokens = estimateTokens(notesText())
+    const calendar = estimateTokens(parts.calendar)
+    const history = messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+    return {
+      instructions,
+      memory,
+      goals,
+      notes: notesTokens,
+      calendar,
+      history,
+      total: instructions + memory + goals + notesTokens + calendar + history + tools,
+    }
+  }
+
+  let usage = measure()
+
+  // Oldest messages first, always keeping the latest one. The history must
+  // still start with a user message, which some providers require.
+  while (usage.total > inputBudget && messages.length > 1) {
+    do {
+      messages = messages.slice(1)
+      droppedMessages++
+    } while (messages.length > 1 && (messages[0] as { role?: string }).role !== 'user')
+    usage = measure()
+  }
+
+  // Then the lowest-ranked note excerpts
+  while (usage.total > inputBudget && notes.length > 0) {
+    notes = notes.slice(0, -1)
+    droppedNotes++
+    usage = measure()
+  }
+
+  const droppedFileList = usage.total > inputBudget && fileList !== ''
+  if (droppedFileList) {
+    fileList = ''
+    usage = measure()
+  }
+
+  return {
+    system: parts.instructions + parts.memory + parts.goals + notesText() + parts.calendar + parts.suffix,
+    messages,
+    notes,
+    budget: {
+      contextWindow,
+      maxOutputTokens,
+      inputBudget,
+      ...usage,
+      tools,
+      droppedMessages,
+      droppedNotes,
+      droppedFileList,
+      overBudget: usage.total > inputBudget,
+    },
+  }
+}
@@ -0,0 +1,125 @@
+// Model providers for the Vercel AI SDK
+// Creates the language model instance for a model of the registry
+// (lib/modelRegistry.ts), built-in or from the user's models.json.
+// Shared by the chat route and the routes that call a model in the background.
+
+import { createOpenAI } from '@ai-sdk/openai'
+import type { LanguageModel } from 'ai'
+import { withCapabilities } from '@/lib/capabilities'
+import { resolveCredential, type ApiKeys } from '@/lib/credentials'
+import type { ModelConfig } from '@/lib/models'
+import { findModel } from '@/lib/modelRegistry'
+import { getOllamaBaseURL } from '@/lib/ollama'
+
+// Helper function to dynamically load the provider factory of an optional package
+// These are optional dependencies - if not installed, they will gracefully fail
+async function loadProviderFactory(providerName: string) {
+  try {
+    // Use require() for optional dependencies since webpack's IgnorePlugin
+    // prevents them from being bundled, but they can still be required at runtime
+    const modulePath = `@ai-sdk/${providerName}`
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const module = require(modulePath)
+    
+    switch (providerName) {
+      case 'anthropic':
+        return module.createAnthropic
+      case 'google':
+        return module.createGoogleGenerativeAI
+      case 'mistral':
+        return module.createMistral
+      default:
+        return null
+    }
+  } catch (e) {
+    console.warn(`@ai-sdk/${providerName} not installed. ${providerName} models will not be available.`)
+    return null
+  }
+}
+
+// Cache for loaded provider factories
+const factoryCache: Record<string, any> = {}
+
+// Ollama clients by base URL (will be initialized when needed)
+const ollamaClients: Record<string, ReturnType<typeof createOpenAI>> = {}
+
+// Helper function to get or create Ollama client
+function getOllamaClient(baseURL: string) {
+  if (!ollamaClients[baseURL]) {
+    ollamaClients[baseURL] = createOpenAI({
+      baseURL,
+      apiKey: 'ollama', // Ollama doesn't validate this, but the SDK requires it
+    })
+  }
+  return ollamaClients[baseURL]
+}
+
+// Creates a model of an optional provider package with the resolved key
+async function createOptionalProviderModel(providerName: string, label: string, modelConfig: ModelConfig, apiKey?: string) {
+  if (!factoryCache[providerName]) {
+    factoryCache[providerName] = await loadProviderFactory(providerName)
+  }
+  if (!factoryCache[providerName]) {
+    throw new Error(`${label} provider not available. Please install @ai-sdk/${providerName}`)
+  }
+  return factoryCache[providerName]({ apiKey })(modelConfig.modelId)
+}
+
+// Helper function to get the model instance based on model config.
+// Keys come from `apiKeys` (entered in the browser) or the provider's environment variable.
+export async function getModel(modelId: string, apiKeys: ApiKeys = {}) {
+  const modelConfig = await findModel(modelId)
+  if (!modelConfig) {
+    throw new Error(`Model ${modelId} not found`)
+  }
+  if (modelConfig.available === false) {
+    throw new Error(`${modelConfig.name} is not available: ${modelConfig.unavailableReason}`)
+  }
+
+  const credential = resolveCredential(modelConfig, apiKeys)
+  if (!credential.ok) {
+    throw new Error(credential.error)
+  }
+  return withCapabilities(await createModelInstance(modelConfig, credential.apiKey), modelConfig)
+}
+
+// Creates the model instance of the model's provider
+async function createModelInstance(modelConfig: ModelConfig, apiKey?: string): Promise<LanguageModel> {
+  switch (modelConfig.provider) {
+    case 'openai': {
+      return createOpenAI({ apiKey })(modelConfig.modelId)
+    }
+    case 'ollama': {
+      // Use Ollama client with OpenAI-compatible API
+      console.log(`[getModel] Creating Ollama model instance for: ${modelConfig.modelId}`)
+      console.log(`[getModel] Ollama baseURL: ${getOllamaBaseURL(modelConfig)}`)
+      try {
+        const ollama = getOllamaClient(getOllamaBaseURL(modelConfig))
+        const model = ollama(modelConfig.modelId)
+        console.log(`[getModel] ✅ Ollama model instance created successfully`)
+        return model
+      } catch (error) {
+        console.error(`[getModel] ❌ Error creating Ollama model instance:`, error)
+        throw error
+      }
+    }
+    case 'openai-compatible': {
+      // Servers like LM Studio, vLLM or llama.cpp; local ones usually don't check the key, but the SDK requires one
+      console.log(`[getModel] Creating OpenAI-compatible model instance for: ${modelConfig.modelId} at ${modelConfig.baseURL}`)
+      return createOpenAI({
+        baseURL: modelConfig.baseURL,
+        apiKey: apiKey || 'not-needed',
+        // Only send the parts of the API that compatible servers support
+        compatibility: 'compatible',
+      })(modelConfig.modelId)
+    }
+    case 'anthropic':
+      return createOptionalProviderModel('anthropic', 'Anthropic', modelConfig, apiKey)
+    case 'google':
+      return createOptionalProviderModel('google', 'Google', modelConfig, apiKey)
+    case 'mistral':
+      return createOptionalProviderModel('mistral', 'Mistral', modelConfig, apiKey)
+    default:
+      throw new Error(`Unknown provider: ${modelConfig.provider}`)
+  }
+}
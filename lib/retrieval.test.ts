@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import type { NoteFile } from '@/lib/notes'
+import { chunkNote, findMatchingLines } from '@/lib/retrieval'
+
+function note(content: string): NoteFile {
+  return { name: 'note.md', path: '/notes/note.md', relativePath: 'note.md', mtime: new Date(0), content }
+}
+
+describe('chunkNote', () => {
+  it('splits at headings and keeps the heading line in its chunk', () => {
+    const chunks = chunkNote(note('intro\n# One\nfirst\n## Two\nsecond'))
+    expect(chunks.map(({ heading, startLine, endLine, text }) => ({ heading, startLine, endLine, text }))).toEqual([
+      { heading: undefined, startLine: 1, endLine: 1, text: 'intro' },
+      { heading: 'One', startLine: 2, endLine: 3, text: '# One\nfirst' },
+      { heading: 'Two', startLine: 4, endLine: 5, text: '## Two\nsecond' },
+    ])
+  })
+
+  it('points line numbers past leading and trailing blank lines', () => {
+    const chunks = chunkNote(note('\n\nfoo bar\n\n# H\n\nbaz\n\n'))
+    expect(chunks.map(({ startLine, endLine, text }) => ({ startLine, endLine, text }))).toEqual([
+      { startLine: 3, endLine: 3, text: 'foo bar' },
+      { startLine: 5, endLine: 7, text: '# H\n\nbaz' },
+    ])
+  })
+
+  it('skips sections that are only blank lines', () => {
+    expect(chunkNote(note('\n\n   \n'))).toEqual([])
+  })
+
+  it('splits long sections and keeps consecutive line numbers', () => {
+    const line = 'x'.repeat(500)
+    const chunks = chunkNote(note([line, line, line, line].join('\n')))
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks[0].startLine).toBe(1)
+    chunks.slice(1).forEach((chunk, index) => expect(chunk.startLine).toBe(chunks[index].endLine + 1))
+    expect(chunks[chunks.length - 1].endLine).toBe(4)
+  })
+})
+
+describe('findMatchingLines', () => {
+  it('reports the note line of each match', () => {
+    const [first, second] = chunkNote(note('\n\nfoo bar\n# H\n\nbaz'))
+    expect(findMatchingLines(first, 'foo')).toEqual([{ line: 3, text: 'foo bar' }])
+    expect(findMatchingLines(second, 'baz')).toEqual([{ line: 6, text: 'baz' }])
+  })
+
+  it('ignores stop words and case, and stops at maxLines', () => {
+    const [chunk] = chunkNote(note('Run daily\nthe plan\nrun again\nrun more'))
+    expect(findMatchingLines(chunk, 'the')).toEqual([])
+    expect(findMatchingLines(chunk, 'RUN', 2)).toEqual([
+      { line: 1, text: 'Run daily' },
+      { line: 3, text: 'run again' },
+    ])
+  })
+})
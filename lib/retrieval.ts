@@ -0,0 +1,298 @@
+// Ranked retrieval over notes
+// Notes are split into heading-aware chunks and scored with BM25 against the
+// user's latest message. When an embedding model is configured, chunks are
+// additionally embedded through Ollama and the two scores are blended.
+
+import type { NoteFile } from '@/lib/notes'
+
+export interface NoteChunk {
+  id: string
+  filePath: string
+  fileName: string  // Path relative to the notes folder
+  heading?: string
+  startLine: number  // 1-based, inclusive
+  endLine: number  // 1-based, inclusive
+  text: string
+}
+
+export interface RankedChunk extends NoteChunk {
+  score: number
+}
+
+export interface NotesIndex {
+  chunks: NoteChunk[]
+  // Per-chunk term frequencies, aligned with `chunks`
+  termFrequencies: Array<Map<string, number>>
+  chunkLengths: number[]
+  averageChunkLength: number
+  // Number of chunks containing each term
+  documentFrequencies: Map<string, number>
+}
+
+export interface RetrievalOptions {
+  topN?: number
+  // Ollama embedding model (e.g. "nomic-embed-text"). BM25 only when omitted.
+  embeddingModel?: string
+  ollamaHost?: string
+}
+
+export const DEFAULT_TOP_N = 8
+export const DEFAULT_OLLAMA_HOST = 'http://localhost:11434'
+
+const MAX_CHUNK_CHARS = 1200
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'had', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so',
+  'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'what', 'when', 'where',
+  'which', 'who', 'will', 'with', 'you', 'your',
+])
+
+/**
+ * Splits text into lowercase search terms, dropping stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\uffff]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+}
+
+/**
+ * Splits a note into chunks at markdown headings, further splitting long sections
+ */
+export function chunkNote(note: NoteFile): NoteChunk[] {
+  const lines = note.content.split('\n')
+  const chunks: NoteChunk[] = []
+
+  let heading: string | undefined
+  let buffer: string[] = []
+  let bufferChars = 0
+  let bufferStart = 1
+
+  const flush = (endLine: number) => {
+    // Blank lines around the chunk are dropped, so its line numbers must skip them too
+    let first = 0
+    let last = buffer.length - 1
+    while (first <= last && !buffer[first].trim()) first++
+    while (last >= first && !buffer[last].trim()) last--
+    if (first <= last) {
+      chunks.push({
+        id: `${note.path}#${bufferStart + first}`,
+        filePath: note.path,
+        fileName: note.relativePath,
+        heading,
+        startLine: bufferStart + first,
+        endLine: bufferStart + last,
+        text: buffer.slice(first, last + 1).join('\n'),
+      })
+    }
+    buffer = []
+    bufferChars = 0
+    bufferStart = endLine + 1
+  }
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1
+    const headingMatch = line.match(/^#{1,6}\s+(.*)$/)
+
+    if (headingMatch) {
+      flush(lineNumber - 1)
+      heading = headingMatch[1].trim()
+      bufferStart = lineNumber
+    } else if (bufferChars + line.length > MAX_CHUNK_CHARS && buffer.length > 0) {
+      flush(lineNumber - 1)
+    }
+
+    buffer.push(line)
+    bufferChars += line.length + 1
+  })
+  flush(lines.length)
+
+  return chunks
+}
+
+/**
+ * Builds a BM25 index over all chunks of the given notes
+ */
+export function buildNotesIndex(notes: NoteFile[]): NotesIndex {
+  const chunks = notes.flatMap(chunkNote)
+  const termFrequencies: Array<Map<string, number>> = []
+  const chunkLengths: number[] = []
+  const documentFrequencies = new Map<string, number>()
+
+  for (const chunk of chunks) {
+    const terms = tokenize(`${chunk.fileName} ${chunk.text}`)
+    const frequencies = new Map<string, number>()
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1)
+    }
+    frequencies.forEach((_, term) => {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1)
+    })
+    termFrequencies.push(frequencies)
+    chunkLengths.push(terms.length)
+  }
+
+  const totalLength = chunkLengths.reduce((sum, length) => sum + length, 0)
+
+  return {
+    chunks,
+    termFrequencies,
+    chunkLengths,
+    averageChunkLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    documentFrequencies,
+  }
+}
+
+// Cache of built indexes per folder, invalidated when any file path or mtime changes
+const indexCache = new Map<string, { signature: string; index: NotesIndex }>()
+
+/**
+ * Returns a cached index for the folder, rebuilding it only when the notes changed
+ */
+export function getNotesIndex(folderPath: string, notes: NoteFile[]): NotesIndex {
+  const signature = notes
+    .map(note => `${note.path}:${note.mtime.getTime()}`)
+    .sort()
+    .join('|')
+
+  const cached = indexCache.get(folderPath)
+  if (cached && cached.signature === signature) {
+    return cached.index
+  }
+
+  const index = buildNotesIndex(notes)
+  indexCache.set(folderPath, { signature, index })
+  return index
+}
+
+/**
+ * Scores every chunk against the query with BM25
+ */
+export function scoreBM25(index: NotesIndex, query: string): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  const chunkCount = index.chunks.length
+
+  return index.termFrequencies.map((frequencies, i) => {
+    let score = 0
+    for (const term of queryTerms) {
+      const tf = frequencies.get(term)
+      if (!tf) continue
+      const df = index.documentFrequencies.get(term) || 0
+      const idf = Math.log(1 + (chunkCount - df + 0.5) / (df + 0.5))
+      const lengthNorm = index.averageChunkLength > 0 ? index.chunkLengths[i] / index.averageChunkLength : 1
+      score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengthNorm)))
+    }
+    return score
+  })
+}
+
+// Cache of embeddings keyed by model and chunk text
+const embeddingCache = new Map<string, number[]>()
+
+async function embed(text: string, model: string, ollamaHost: string): Promise<number[]> {
+  const cacheKey = `${model}\u0000${text}`
+  const cached = embeddingCache.get(cacheKey)
+  if (cached) return cached
+
+  const response = await fetch(`${ollamaHost}/api/embeddings`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model, prompt: text }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Ollama embeddings failed (HTTP ${response.status})`)
+  }
+
+  const data = await response.json()
+  if (!Array.isArray(data?.embedding)) {
+    throw new Error('Ollama embeddings response has no embedding')
+  }
+
+  embeddingCache.set(cacheKey, data.embedding)
+  return data.embedding
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0
+}
+
+/**
+ * Returns the top-N chunks most relevant to the query.
+ * Falls back to BM25 alone if the embedding backend is unavailable.
+ */
+export async function retrieveRelevantChunks(
+  index: NotesIndex,
+  query: string,
+  options: RetrievalOptions = {},
+): Promise<RankedChunk[]> {
+  const topN = options.topN ?? DEFAULT_TOP_N
+  if (!query.trim() || index.chunks.length === 0) return []
+
+  let scores = scoreBM25(index, query)
+
+  if (options.embeddingModel) {
+    const ollamaHost = options.ollamaHost || DEFAULT_OLLAMA_HOST
+    try {
+      const queryEmbedding = await embed(query, options.embeddingModel, ollamaHost)
+      const maxBM25 = Math.max(...scores, 0)
+      const blended: number[] = []
+      for (let i = 0; i < index.chunks.length; i++) {
+        const chunkEmbedding = await embed(index.chunks[i].text, options.embeddingModel, ollamaHost)
+        const semantic = Math.max(cosineSimilarity(queryEmbedding, chunkEmbedding), 0)
+        const keyword = maxBM25 > 0 ? scores[i] / maxBM25 : 0
+        blended.push(0.5 * keyword + 0.5 * semantic)
+      }
+      scores = blended
+    } catch (error) {
+      console.warn('[Retrieval] Embedding backend unavailable, using BM25 only:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  return index.chunks
+    .map((chunk, i) => ({ ...chunk, score: scores[i] }))
+    .filter(chunk => chunk.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topN)
+}
+
+/**
+ * Returns the unique file paths of the given chunks, in rank order
+ */
+export function getChunkSources(chunks: NoteChunk[]): string[] {
+  return Array.from(new Set(chunks.map(chunk => chunk.filePath)))
+}
+
+export interface LineMatch {
+  line: number  // 1-based
+  text: string
+}
+
+/**
+ * Returns the lines of a chunk that contain any of the query terms
+ */
+export function findMatchingLines(chunk: NoteChunk, query: string, maxLines: number = 5): LineMatch[] {
+  const queryTerms = new Set(tokenize(query))
+  const matches: LineMatch[] = []
+
+  chunk.text.split('\n').forEach((text, offset) => {
+    if (matches.length >= maxLines) return
+    if (tokenize(text).some(term => queryTerms.has(term))) {
+      matches.push({ line: chunk.startLine + offset, text: text.trim() })
+    }
+  })
+
+  return matches
+}
@@ -0,0 +1,269 @@
+// Weekly review
+// Gathers what happened in the last 7 days (modified notes, tasks, fired
+// reminders, past calendar events) and has the model write a review into
+// `reviews/YYYY-Www.md` in the space.
+
+import { generateText, type LanguageModel } from 'ai'
+import { readFile } from 'fs/promises'
+import fs from 'fs'
+import { join } from 'path'
+import { fetchCalendarEventsBetween, type CalendarEvent } from '@/lib/calendar'
+import type { ApiKeys } from '@/lib/credentials'
+import { addDays, isoWeekString, localDateString } from '@/lib/dates'
+import { readGoals, formatGoalsForPrompt } from '@/lib/goals'
+import { writeNoteWithHistory } from '@/lib/history'
+import { DEFAULT_CONTEXT_WINDOW, DEFAULT_MAX_OUTPUT_TOKENS, DEFAULT_MODEL } from '@/lib/models'
+import { findModel } from '@/lib/modelRegistry'
+import { readNotesFromFolder } from '@/lib/notes'
+import { getModel } from '@/lib/providers'
+import { resolveSandboxedPath } from '@/lib/sandbox'
+import { readSpaceSettings, getModelPolicyError, getSpaceCalendarUrls } from '@/lib/spaceSettings'
+import { parseTasks, type Task } from '@/lib/tasks'
+
+export const REVIEWS_DIR = 'reviews'
+
+const REVIEW_PERIOD_DAYS = 7
+
+// Tokens kept free for the review instructions
+const INSTRUCTIONS_TOKENS = 500
+
+// Characters of a single modified note included in the prompt
+const MAX_NOTE_CHARS = 2000
+
+export interface ReviewMeeting {
+  summary: string
+  start: string
+  minutes: number
+}
+
+export type WeeklyReviewResult =
+  | { ok: true; data: WeeklyReviewData; relativePath: string; content: string; historyId: string }
+  | { ok: false; error: string; status: number }
+
+export interface WeeklyReviewData {
+  week: string  // ISO week, e.g. 2026-W43
+  from: string  // YYYY-MM-DD
+  to: string
+  modifiedNotes: Array<{ relativePath: string; modified: string; content: string }>
+  completedTasks: Task[]
+  openTasks: Task[]
+  firedReminders: Array<{ dateTime: string; reminderText: string }>
+  meetings: ReviewMeeting[]
+  meetingMinutes: number
+  calendarError?: string
+  goals: string
+}
+
+function isAllDayEvent(event: CalendarEvent): boolean {
+  const duration = event.end.getTime() - event.start.getTime()
+  return duration >= 24 * 60 * 60 * 1000 || duration === 0
+}
+
+async function readFiredReminders(notesFolderPath: string, from: Date, to: Date): Promise<WeeklyReviewData['firedReminders']> {
+  const statePath = join(notesFolderPath, 'state.json')
+  if (!fs.existsSync(statePath)) {
+    return []
+  }
+
+  try {
+    const raw = await readFile(statePath, 'utf-8')
+    const state = raw.trim() ? JSON.parse(raw) : {}
+    const reminders: Array<{ dateTime: string; reminderText: string; completed?: boolean }> = Array.isArray(state?.reminders) ? state.reminders : []
+
+    // The reminders check marks reminders as completed when it fires them
+    return reminders
+      .filter(reminder => reminder.completed === true)
+      .filter(reminder => {
+        const time = new Date(reminder.dateTime)
+        return time >= from && time <= to
+      })
+      .map(({ dateTime, reminderText }) => ({ dateTime, reminderText }))
+  } catch (error) {
+    console.error('[Review] Failed to read state.json:', error)
+    return []
+  }
+}
+
+/**
+ * Collects the activity of the last 7 days in a space
+ */
+export async function gatherWeeklyReviewData(
+  notesFolderPath: string,
+  options: { calendarUrls?: string[]; now?: Date } = {},
+): Promise<WeeklyReviewData> {
+  const now = options.now || new Date()
+  const from = new Date(now.getTime() - REVIEW_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+  const today = localDateString(now)
+
+  // Earlier reviews are not activity of the week
+  const notes = (await readNotesFromFolder(notesFolderPath))
+    .filter(note => !note.relativePath.startsWith(`${REVIEWS_DIR}/`))
+
+  const modified = notes
+    .filter(note => note.mtime >= from)
+    .sort((a, b) => b.mtime.getTime() - a.mtime.getTime())
+
+  // When a checkbox was ticked is not recorded, so completed tasks are the
+  // ones in notes modified this week
+  const completedTasks = modified.flatMap(note => parseTasks(note.content, note)).filter(task => task.completed)
+  // Open tasks that are overdue or due next week, or undated ones from this week's notes
+  const modifiedPaths = new Set(modified.map(note => note.path))
+  const nextWeek = addDays(today, REVIEW_PERIOD_DAYS)
+  const openTasks = notes
+    .flatMap(note => parseTasks(note.content, note))
+    .filter(task => !task.completed && (task.due ? task.due <= nextWeek : modifiedPaths.has(task.filePath)))
+
+  let meetings: ReviewMeeting[] = []
+  let calendarError: string | undefined
+  if (options.calendarUrls && options.calendarUrls.length > 0) {
+    try {
+      const calendars = await Promise.all(options.calendarUrls.map(url => fetchCalendarEventsBetween(url, from, now)))
+      meetings = calendars.flat()
+        .sort((a, b) => a.start.getTime() - b.start.getTime())
+        .filter(event => !isAllDayEvent(event) && event.end <= now)
+        .map(event => ({
+          summary: event.summary,
+          start: event.start.toISOString(),
+          minutes: Math.round((event.end.getTime() - event.start.getTime()) / 60000),
+        }))
+    } catch (error) {
+      calendarError = error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  return {
+    week: isoWeekString(today),
+    from: localDateString(from),
+    to: today,
+    modifiedNotes: modified.map(note => ({
+      relativePath: note.relativePath,
+      modified: note.mtime.toISOString(),
+      content: note.content.length > MAX_NOTE_CHARS ? note.content.substring(0, MAX_NOTE_CHARS) + '\n[...]' : note.content,
+    })),
+    completedTasks,
+    openTasks,
+    firedReminders: await readFiredReminders(notesFolderPath, from, now),
+    meetings,
+    meetingMinutes: meetings.reduce((sum, meeting) => sum + meeting.minutes, 0),
+    calendarError,
+    goals: formatGoalsForPrompt(await readGoals(notesFolderPath)),
+  }
+}
+
+function formatTask(task: Task): string {
+  return `- ${task.text} (${task.relativePath}${task.due ? `, due ${task.due}` : ''}${task.priority ? `, ${task.priority} priority` : ''})`
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}min` : `${minutes}min`
+}
+
+/**
+ * Formats the gathered data as the prompt for the review. `maxChars` bounds
+ * the size of the note excerpts, which are dropped oldest first.
+ */
+export function formatReviewPrompt(data: WeeklyReviewData, maxChars: number): string {
+  const sections = [
+    `Week ${data.week} (${data.from} to ${data.to})`,
+    `## Completed tasks\n${data.completedTasks.map(formatTask).join('\n') || 'None'}`,
+    `## Open tasks (due soon, overdue or in notes edited this week)\n${data.openTasks.map(formatTask).join('\n') || 'None'}`,
+    `## Reminders that fired\n${data.firedReminders.map(reminder => `- ${reminder.dateTime}: ${reminder.reminderText}`).join('\n') || 'None'}`,
+    data.calendarError
+      ? `## Meetings\nThe calendar could not be read: ${data.calendarError}`
+      : `## Meetings (${data.meetings.length} meetings, ${formatDuration(data.meetingMinutes)} in total)\n${data.meetings.map(meeting => `- ${meeting.start}: ${meeting.summary} (${meeting.minutes}min)`).join('\n') || 'None'}`,
+    data.goals ? `## Goals\n${data.goals}` : '',
+  ].filter(Boolean)
+
+  let remaining = maxChars - sections.join('\n\n').length
+  const notes: string[] = []
+  for (const note of data.modifiedNotes) {
+    const excerpt = `### ${note.relativePath} (modified ${note.modified})\n${note.content}`
+    if (excerpt.length > remaining) break
+    notes.push(excerpt)
+    remaining -= excerpt.length
+  }
+  sections.push(`## Notes modified this week (${data.modifiedNotes.length}, most recent first)\n\n${notes.join('\n\n') || 'None'}`)
+
+  return sections.join('\n\n')
+}
+
+/**
+ * Has the model write the review as markdown
+ */
+export async function writeWeeklyReview(model: LanguageModel, data: WeeklyReviewData, maxPromptChars: number): Promise<string> {
+  const { text } = await generateText({
+    model,
+    temperature: 0.4,
+    system: `You are OpenCoach, a personal coaching assistant, writing the user's weekly review from their notes, tasks, reminders and calendar.
+Write markdown with exactly these sections, in this order:
+## Wins
+## Misses
+## Time in meetings
+## Priorities for next week
+
+Be specific and refer to the actual tasks, notes and events. Under "Time in meetings", use the meeting count and total given below. List 3 to 5 priorities for next week, based on open tasks, misses and goals. Address the user as "you". Do not add a title, it is added for you.`,
+    prompt: formatReviewPrompt(data, maxPromptChars),
+  })
+
+  return text.trim()
+}
+
+/**
+ * Builds the review file: frontmatter, title and the model's review
+ */
+export function formatReviewFile(data: WeeklyReviewData, review: string, modelName: string): string {
+  return [
+    '---',
+    `week: ${data.week}`,
+    `from: ${data.from}`,
+    `to: ${data.to}`,
+    `meetingMinutes: ${data.meetingMinutes}`,
+    `model: ${modelName}`,
+    `generatedAt: ${new Date().toISOString()}`,
+    '---',
+    '',
+    `# Weekly review ${data.week}`,
+    '',
+    review,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Generates the review of the last 7 days with the space's settings and writes
+ * it to reviews/YYYY-Www.md, through the edit history
+ */
+export async function createWeeklyReview(
+  notesFolderPath: string,
+  options: { modelId?: string; apiKeys?: ApiKeys; calendarUrl?: string } = {},
+): Promise<WeeklyReviewResult> {
+  const settings = await readSpaceSettings(notesFolderPath)
+  const modelId = options.modelId || settings.defaultModel || DEFAULT_MODEL
+  const modelConfig = await findModel(modelId)
+  if (!modelConfig) {
+    return { ok: false, error: `Unknown model "${modelId}"`, status: 400 }
+  }
+  const policyError = getModelPolicyError(settings, modelConfig)
+  if (policyError) {
+    return { ok: false, error: policyError, status: 403 }
+  }
+
+  const data = await gatherWeeklyReviewData(notesFolderPath, { calendarUrls: getSpaceCalendarUrls(settings, options.calendarUrl) })
+
+  const relativePath = `${REVIEWS_DIR}/${data.week}.md`
+  const resolved = await resolveSandboxedPath(notesFolderPath, relativePath)
+  if (!resolved.ok) {
+    return { ok: false, error: resolved.error, status: 403 }
+  }
+
+  const contextWindow = modelConfig.contextWindow ?? DEFAULT_CONTEXT_WINDOW
+  const maxOutputTokens = Math.min(modelConfig.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS, Math.floor(contextWindow / 2))
+  const maxPromptChars = (contextWindow - maxOutputTokens - INSTRUCTIONS_TOKENS) * 4
+
+  const model = await getModel(modelId, options.apiKeys)
+  const review = await writeWeeklyReview(model, data, maxPromptChars)
+  const content = formatReviewFile(data, review, modelConfig.name)
+  const entry = await writeNoteWithHistory(notesFolderPath, resolved.path, content, 'weeklyReview')
+  return { ok: true, data, relativePath, content, historyId: entry.id }
+}
@@ -0,0 +1,123 @@
+// File access sandbox for agent tools
+// Every path the model passes to a tool is resolved against the active notes
+// folder (or space). Paths that leave it, either lexically or through a
+// symlink, are rejected with a structured error the model can act on.
+
+import { lstat, realpath } from 'fs/promises'
+import { basename, dirname, isAbsolute, join, relative, sep } from 'path'
+import { isNoteFile, resolveNotePath } from '@/lib/notes'
+import { OPENCOACH_DIR } from '@/lib/history'
+import { readSpaceSettings } from '@/lib/spaceSettings'
+
+export type SandboxErrorCode =
+  | 'NO_NOTES_FOLDER'
+  | 'INVALID_PATH'
+  | 'OUTSIDE_NOTES_FOLDER'
+  | 'SYMLINK_ESCAPE'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'RESERVED_PATH'
+  | 'OVERWRITE_NOT_ALLOWED'
+
+export type SandboxResult =
+  | { ok: true; path: string; exists: boolean }
+  | { ok: false; code: SandboxErrorCode; error: string }
+
+function isInside(root: string, target: string): boolean {
+  const relativeToRoot = relative(root, target)
+  return relativeToRoot === '' || (relativeToRoot !== '..' && !relativeToRoot.startsWith(`..${sep}`) && !isAbsolute(relativeToRoot))
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await lstat(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resolves the real location of a path whose tail may not exist yet,
+ * by resolving symlinks in the nearest existing ancestor
+ */
+async function realpathOfNearestAncestor(target: string): Promise<string> {
+  const missingSegments: string[] = []
+  let current = target
+
+  while (!(await pathExists(current))) {
+    const parent = dirname(current)
+    if (parent === current) break
+    missingSegments.unshift(basename(current))
+    current = parent
+  }
+
+  const resolvedAncestor = await realpath(current)
+  return missingSegments.length > 0 ? join(resolvedAncestor, ...missingSegments) : resolvedAncestor
+}
+
+/**
+ * Resolves a note path inside the notes folder, following symlinks.
+ * Rejects `..` segments, paths outside the folder and non-note files.
+ */
+export async function resolveSandboxedPath(notesFolderPath: string, filePath: string): Promise<SandboxResult> {
+  const root = notesFolderPath.trim()
+  if (!root) {
+    return { ok: false, code: 'NO_NOTES_FOLDER', error: 'No notes folder is configured, so files cannot be accessed.' }
+  }
+
+  if (!filePath.trim() || filePath.includes('\0') || filePath.split(/[\\/]/).includes('..')) {
+    return { ok: false, code: 'INVALID_PATH', error: `"${filePath}" is not a valid note path. Paths must not contain ".." segments.` }
+  }
+
+  const lexicalPath = resolveNotePath(root, filePath)
+  if (!lexicalPath) {
+    return { ok: false, code: 'OUTSIDE_NOTES_FOLDER', error: `"${filePath}" is outside the notes folder (${root}). Only files inside the notes folder can be accessed.` }
+  }
+
+  // OpenCoach's own data (edit history, ...) is not accessible to the agent
+  if (relative(root, lexicalPath).split(sep)[0] === OPENCOACH_DIR) {
+    return { ok: false, code: 'RESERVED_PATH', error: `"${filePath}" is inside the ${OPENCOACH_DIR} folder, which is reserved for OpenCoach.` }
+  }
+
+  if (!isNoteFile(lexicalPath)) {
+    return { ok: false, code: 'UNSUPPORTED_FILE_TYPE', error: `"${filePath}" is not a note file. Only .md, .txt, .markdown and .mdx files can be accessed.` }
+  }
+
+  try {
+    const realRoot = await realpath(root)
+    const realTarget = await realpathOfNearestAncestor(lexicalPath)
+    if (!isInside(realRoot, realTarget)) {
+      return { ok: false, code: 'SYMLINK_ESCAPE', error: `"${filePath}" resolves through a symlink to a location outside the notes folder.` }
+    }
+
+    return { ok: true, path: lexicalPath, exists: await pathExists(lexicalPath) }
+  } catch (error) {
+    return { ok: false, code: 'INVALID_PATH', error: `Failed to resolve "${filePath}": ${error instanceof Error ? error.message : String(error)}` }
+  }
+}
+
+/**
+ * Resolves a path for writing. Replacing an existing file is only allowed
+ * when the space sets `allowOverwrite` in space.json.
+ */
+export async function resolveWritablePath(
+  notesFolderPath: string,
+  filePath: string,
+  mode: 'append' | 'write',
+): Promise<SandboxResult> {
+  const result = await resolveSandboxedPath(notesFolderPath, filePath)
+  if (!result.ok || mode !== 'write' || !result.exists) {
+    return result
+  }
+
+  const settings = await readSpaceSettings(notesFolderPath.trim())
+  if (!settings.allowOverwrite) {
+    return {
+      ok: false,
+      code: 'OVERWRITE_NOT_ALLOWED',
+      error: `"${filePath}" already exists and overwriting files is not allowed in this space. Use mode "append" to add content instead.`,
+    }
+  }
+
+  return result
+}
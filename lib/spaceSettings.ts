@@ -0,0 +1,220 @@
+import { readFile, stat, writeFile } from 'fs/promises'
+import fs from 'fs'
+import { join } from 'path'
+import { type ModelConfig } from '@/lib/models'
+import { findModel } from '@/lib/modelRegistry'
+
+// Per-space settings, stored as space.json in the space folder
+export interface SpaceSettings {
+  allowOverwrite?: boolean  // Lets the agent replace the full content of existing notes
+  requireApproval?: boolean  // Agent edits are proposed and only written after the user approves them
+  briefingTime?: string  // HH:MM local time of the daily morning briefing, none when unset
+  defaultModel?: string  // Model id used when switching to the space
+  fallbackModels?: string[]  // Model ids tried in order when the selected model fails
+  allowCloudFallback?: boolean  // Lets local models fall back to cloud models of fallbackModels
+  calendarUrls?: string[]  // iCal URLs of the space, used instead of the calendar URL of the browser
+  localOnly?: boolean  // Notes of the space are only sent to local models
+  reminders?: ReminderSettings
+  persona?: PersonaSettings  // Used when the space has no COACH.md
+}
+
+export interface ReminderSettings {
+  enabled?: boolean  // Extract reminders from CONTEXT.md, true by default
+  model?: string  // Model id used to extract them, OpenAI gpt-4o-mini by default
+}
+
+export interface PersonaSettings {
+  name?: string
+  tone?: string
+  method?: string
+  rules?: string[]
+}
+
+export type SpaceSettingsValidation =
+  | { ok: true; settings: SpaceSettings }
+  | { ok: false; error: string }
+
+export const SPACE_SETTINGS_FILE = 'space.json'
+
+// Upper bound on models in a fallback chain
+export const MAX_FALLBACK_MODELS = 5
+
+/**
+ * Reads space.json from a space folder. Missing or invalid files yield empty settings.
+ */
+export async function readSpaceSettings(spacePath: string): Promise<SpaceSettings> {
+  const settingsPath = join(spacePath, SPACE_SETTINGS_FILE)
+  if (!fs.existsSync(settingsPath)) {
+    return {}
+  }
+
+  try {
+    const raw = await readFile(settingsPath, 'utf-8')
+    const parsed = raw.trim() ? JSON.parse(raw) : {}
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as SpaceSettings) : {}
+  } catch (error) {
+    console.error(`Failed to read/parse ${settingsPath}:`, error)
+    return {}
+  }
+}
+
+/**
+ * Writes space.json to a space folder
+ */
+export async function writeSpaceSettings(spacePath: string, settings: SpaceSettings): Promise<void> {
+  await writeFile(join(spacePath, SPACE_SETTINGS_FILE), JSON.stringify(settings, null, 2) + '\n', 'utf-8')
+}
+
+/**
+ * Resolves a space by name inside the notes folder root. Space names are
+ * folder names, so paths and hidden folders are rejected.
+ */
+export async function resolveSpacePath(notesFolderPath: string, name: string): Promise<string | null> {
+  if (!name || name.startsWith('.') || /[\\/\0]/.test(name)) {
+    return null
+  }
+
+  const spacePath = join(notesFolderPath.trim(), name)
+  try {
+    return (await stat(spacePath)).isDirectory() ? spacePath : null
+  } catch {
+    return null
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+/**
+ * Validates settings sent by the UI. Unknown fields are dropped, empty
+ * values are left out. Models are looked up in the registry, so models from
+ * models.json can be chosen too.
+ */
+export async function validateSpaceSettings(input: unknown): Promise<SpaceSettingsValidation> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, error: 'settings must be an object' }
+  }
+
+  const raw = input as Record<string, any>
+  const settings: SpaceSettings = {}
+
+  for (const key of ['allowOverwrite', 'requireApproval', 'localOnly', 'allowCloudFallback'] as const) {
+    if (raw[key] === undefined) continue
+    if (typeof raw[key] !== 'boolean') {
+      return { ok: false, error: `${key} must be true or false` }
+    }
+    settings[key] = raw[key]
+  }
+
+  if (raw.briefingTime !== undefined && raw.briefingTime !== '') {
+    const match = typeof raw.briefingTime === 'string' ? raw.briefingTime.trim().match(/^(\d{1,2}):(\d{2})$/) : null
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+      return { ok: false, error: 'briefingTime must be a time like 07:30' }
+    }
+    settings.briefingTime = raw.briefingTime.trim()
+  }
+
+  if (raw.defaultModel !== undefined && raw.defaultModel !== '') {
+    if (typeof raw.defaultModel !== 'string' || !(await findModel(raw.defaultModel))) {
+      return { ok: false, error: `Unknown model "${raw.defaultModel}"` }
+    }
+    settings.defaultModel = raw.defaultModel
+  }
+
+  if (raw.fallbackModels !== undefined) {
+    if (!isStringList(raw.fallbackModels)) {
+      return { ok: false, error: 'fallbackModels must be a list of model ids' }
+    }
+    const modelIds = Array.from(new Set(raw.fallbackModels.map(id => id.trim()).filter(Boolean)))
+    for (const modelId of modelIds) {
+      if (!(await findModel(modelId))) {
+        return { ok: false, error: `Unknown fallback model "${modelId}"` }
+      }
+    }
+    if (modelIds.length > MAX_FALLBACK_MODELS) {
+      return { ok: false, error: `fallbackModels can list at most ${MAX_FALLBACK_MODELS} models` }
+    }
+    if (modelIds.length > 0) settings.fallbackModels = modelIds
+  }
+
+  if (raw.calendarUrls !== undefined) {
+    if (!isStringList(raw.calendarUrls)) {
+      return { ok: false, error: 'calendarUrls must be a list of URLs' }
+    }
+    const urls = raw.calendarUrls.map(url => url.trim()).filter(Boolean)
+    const invalid = urls.find(url => !/^(https?|webcal):\/\//i.test(url))
+    if (invalid) {
+      return { ok: false, error: `"${invalid}" is not an http(s) or webcal calendar URL` }
+    }
+    if (urls.length > 0) settings.calendarUrls = urls
+  }
+
+  if (raw.reminders !== undefined) {
+    const reminders = raw.reminders
+    if (!reminders || typeof reminders !== 'object' || Array.isArray(reminders)) {
+      return { ok: false, error: 'reminders must be an object' }
+    }
+    if (reminders.enabled !== undefined && typeof reminders.enabled !== 'boolean') {
+      return { ok: false, error: 'reminders.enabled must be true or false' }
+    }
+    if (reminders.model !== undefined && reminders.model !== '' && (typeof reminders.model !== 'string' || !(await findModel(reminders.model)))) {
+      return { ok: false, error: `Unknown reminders model "${reminders.model}"` }
+    }
+    settings.reminders = {
+      ...(reminders.enabled !== undefined && { enabled: reminders.enabled }),
+      ...(reminders.model && { model: reminders.model }),
+    }
+  }
+
+  if (raw.persona !== undefined) {
+    const persona = raw.persona
+    if (!persona || typeof persona !== 'object' || Array.isArray(persona)) {
+      return { ok: false, error: 'persona must be an object' }
+    }
+    for (const key of ['name', 'tone', 'method'] as const) {
+      if (persona[key] !== undefined && typeof persona[key] !== 'string') {
+        return { ok: false, error: `persona.${key} must be a string` }
+      }
+    }
+    if (persona.rules !== undefined && !isStringList(persona.rules)) {
+      return { ok: false, error: 'persona.rules must be a list of strings' }
+    }
+    settings.persona = {
+      ...(persona.name?.trim() && { name: persona.name.trim() }),
+      ...(persona.tone?.trim() && { tone: persona.tone.trim() }),
+      ...(persona.method?.trim() && { method: persona.method.trim() }),
+      ...(persona.rules && { rules: (persona.rules as string[]).map(rule => rule.trim()).filter(Boolean) }),
+    }
+  }
+
+  for (const modelId of [settings.defaultModel, settings.reminders?.model, ...(settings.fallbackModels || [])]) {
+    const policyError = modelId ? getModelPolicyError(settings, await findModel(modelId)) : null
+    if (policyError) {
+      return { ok: false, error: policyError }
+    }
+  }
+
+  return { ok: true, settings }
+}
+
+/**
+ * Returns the calendar URLs to use for a space: its own calendars, or else the
+ * calendar URL configured in the browser. webcal:// URLs are fetched over https.
+ */
+export function getSpaceCalendarUrls(settings: SpaceSettings, fallbackUrl?: unknown): string[] {
+  const urls = settings.calendarUrls && settings.calendarUrls.length > 0
+    ? settings.calendarUrls
+    : typeof fallbackUrl === 'string' && fallbackUrl.trim() ? [fallbackUrl] : []
+  return urls.map(url => url.trim().replace(/^webcal:\/\//i, 'https://'))
+}
+
+/**
+ * Returns why the space does not allow a model, or null if it does
+ */
+export function getModelPolicyError(settings: SpaceSettings, model: ModelConfig | undefined): string | null {
+  if (settings.localOnly && !model?.isLocal) {
+    return `This space is local-only, so its notes are only sent to local models. ${model?.name || 'The selected model'} runs in the cloud; choose a local Ollama model instead.`
+  }
+  return null
+}
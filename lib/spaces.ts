@@ -0,0 +1,139 @@
+// Multi-space chats
+// A chat can ask across several spaces of the notes folder at once. Their
+// notes, tasks and reminders are merged, and everything that reaches the model
+// is labelled with the space it comes from, e.g. "[Work] meetings/standup.md".
+
+import { readFile } from 'fs/promises'
+import fs from 'fs'
+import { join } from 'path'
+import { readNotesFromFolder } from '@/lib/notes'
+import { getNotesIndex, retrieveRelevantChunks, type RankedChunk, type RetrievalOptions } from '@/lib/retrieval'
+import { readSpaceSettings, resolveSpacePath, type SpaceSettings } from '@/lib/spaceSettings'
+import { parseTasks, type Task } from '@/lib/tasks'
+
+export interface ChatSpace {
+  name: string
+  path: string
+  settings: SpaceSettings
+}
+
+export interface SpaceReminder {
+  space: string
+  dateTime: string
+  reminderText: string
+}
+
+export type ChatSpacesResult =
+  | { ok: true; spaces: ChatSpace[] }
+  | { ok: false; error: string }
+
+// Upper bound on spaces in one chat, each one is read on every message
+export const MAX_CHAT_SPACES = 10
+
+/**
+ * Resolves the space names of a chat request inside the notes folder root,
+ * with their settings
+ */
+export async function resolveChatSpaces(notesFolderPath: string, names: unknown): Promise<ChatSpacesResult> {
+  if (!Array.isArray(names) || names.length === 0 || !names.every(name => typeof name === 'string')) {
+    return { ok: false, error: 'spaces must be a list of space names' }
+  }
+  if (!notesFolderPath.trim()) {
+    return { ok: false, error: 'notesFolderPath is required to ask across spaces' }
+  }
+
+  const unique = Array.from(new Set(names.map(name => name.trim()).filter(Boolean)))
+  if (unique.length > MAX_CHAT_SPACES) {
+    return { ok: false, error: `A chat can ask across at most ${MAX_CHAT_SPACES} spaces` }
+  }
+
+  const spaces: ChatSpace[] = []
+  for (const name of unique) {
+    const path = await resolveSpacePath(notesFolderPath, name)
+    if (!path) {
+      return { ok: false, error: `Space "${name}" not found` }
+    }
+    spaces.push({ name, path, settings: await readSpaceSettings(path) })
+  }
+  return { ok: true, spaces }
+}
+
+/**
+ * Combines the settings of the spaces of a chat. If any space is local-only,
+ * the chat is too. Calendars of all spaces are combined. The first fallback
+ * chain is used, and falls back to the cloud only if every space allows it.
+ * Approval and overwrite settings stay per space, they apply to the space that
+ * is written to.
+ */
+export function mergeSpaceSettings(spaces: ChatSpace[]): SpaceSettings {
+  const calendarUrls = Array.from(new Set(spaces.flatMap(space => space.settings.calendarUrls || [])))
+  return {
+    defaultModel: spaces.find(space => space.settings.defaultModel)?.settings.defaultModel,
+    localOnly: spaces.some(space => space.settings.localOnly) || undefined,
+    fallbackModels: spaces.find(space => space.settings.fallbackModels?.length)?.settings.fallbackModels,
+    allowCloudFallback: spaces.some(space => space.settings.allowCloudFallback !== undefined)
+      ? spaces.every(space => space.settings.allowCloudFallback)
+      : undefined,
+    ...(calendarUrls.length > 0 && { calendarUrls }),
+  }
+}
+
+/**
+ * Prefixes a path or text with its space
+ */
+export function labelWithSpace(space: string, text: string): string {
+  return `[${space}] ${text}`
+}
+
+/**
+ * Retrieves the most relevant chunks of each space and keeps the overall top-N.
+ * File names are labelled with their space.
+ */
+export async function retrieveAcrossSpaces(spaces: ChatSpace[], query: string, options: RetrievalOptions = {}): Promise<RankedChunk[]> {
+  const perSpace = await Promise.all(spaces.map(async space => {
+    const notes = await readNotesFromFolder(space.path)
+    if (notes.length === 0) return []
+
+    const chunks = await retrieveRelevantChunks(getNotesIndex(space.path, notes), query, options)
+    return chunks.map(chunk => ({ ...chunk, fileName: labelWithSpace(space.name, chunk.fileName) }))
+  }))
+
+  return perSpace
+    .flat()
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.topN)
+}
+
+/**
+ * Reads the tasks of every space, each with the name of its space
+ */
+export async function readTasksAcrossSpaces(spaces: ChatSpace[]): Promise<Array<Task & { space: string }>> {
+  const perSpace = await Promise.all(spaces.map(async space => {
+    const notes = await readNotesFromFolder(space.path)
+    return notes.flatMap(note => parseTasks(note.content, note)).map(task => ({ ...task, space: space.name }))
+  }))
+  return perSpace.flat()
+}
+
+/**
+ * Reads the open reminders of every space from their state.json, soonest first
+ */
+export async function readRemindersAcrossSpaces(spaces: ChatSpace[]): Promise<SpaceReminder[]> {
+  const reminders: SpaceReminder[] = []
+  for (const space of spaces) {
+    const statePath = join(space.path, 'state.json')
+    if (!fs.existsSync(statePath)) continue
+
+    try {
+      const raw = await readFile(statePath, 'utf-8')
+      const state = raw.trim() ? JSON.parse(raw) : {}
+      for (const reminder of Array.isArray(state.reminders) ? state.reminders : []) {
+        if (typeof reminder?.dateTime !== 'string' || typeof reminder?.reminderText !== 'string' || reminder.completed) continue
+        reminders.push({ space: space.name, dateTime: reminder.dateTime, reminderText: reminder.reminderText })
+      }
+    } catch (error) {
+      console.error(`Failed to read/parse ${statePath}:`, error)
+    }
+  }
+  return reminders.sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime())
+}
@@ -0,0 +1,41 @@
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { readState, withStateLock, writeState } from '@/lib/state'
+
+describe('withStateLock', () => {
+  let notesFolder: string
+
+  beforeEach(async () => {
+    notesFolder = await mkdtemp(join(tmpdir(), 'opencoach-state-'))
+  })
+
+  afterEach(async () => {
+    await rm(notesFolder, { recursive: true, force: true })
+  })
+
+  it('runs concurrent updates one at a time, so none is lost', async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => withStateLock(notesFolder, async () => {
+      const state = await readState(notesFolder)
+      await writeState(notesFolder, { ...state, [`key${i}`]: i })
+    })))
+
+    expect(Object.keys(await readState(notesFolder))).toHaveLength(20)
+    expect(await readdir(notesFolder)).toEqual(['state.json'])
+  })
+
+  it('keeps running later updates after one fails', async () => {
+    const failed = withStateLock(notesFolder, async () => {
+      throw new Error('boom')
+    })
+    const next = withStateLock(notesFolder, async () => {
+      await writeState(notesFolder, { ok: true })
+      return 'done'
+    })
+
+    await expect(failed).rejects.toThrow('boom')
+    expect(await next).toBe('done')
+    expect(await readState(notesFolder)).toEqual({ ok: true })
+  })
+})
@@ -0,0 +1,54 @@
+// state.json of a notes folder
+// Reminders, the last briefing and other bookkeeping share one file, written
+// by several routes. Updates of a folder run one at a time, and each write goes
+// to a temporary file that then replaces state.json, so a reader never sees a
+// half-written file.
+
+import { readFile, rename, writeFile } from 'fs/promises'
+import fs from 'fs'
+import { join, resolve } from 'path'
+
+export const STATE_FILE = 'state.json'
+
+export type StateData = Record<string, any>
+
+// Last queued update of each folder
+const stateLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Reads state.json, or returns an empty state if it does not exist.
+ * Throws if the file is not valid JSON.
+ */
+export async function readState(notesFolderPath: string): Promise<StateData> {
+  const statePath = join(notesFolderPath, STATE_FILE)
+  if (!fs.existsSync(statePath)) {
+    return {}
+  }
+  const raw = await readFile(statePath, 'utf-8')
+  return raw.trim() ? JSON.parse(raw) : {}
+}
+
+/**
+ * Replaces state.json. Call it inside withStateLock() after reading the current state.
+ */
+export async function writeState(notesFolderPath: string, state: StateData): Promise<void> {
+  const statePath = join(notesFolderPath, STATE_FILE)
+  const tempPath = `${statePath}.${process.pid}-${Date.now()}.tmp`
+  await writeFile(tempPath, JSON.stringify(state, null, 2), 'utf-8')
+  await rename(tempPath, statePath)
+}
+
+/**
+ * Runs a read-modify-write of state.json once the earlier updates of the folder are done
+ */
+export async function withStateLock<T>(notesFolderPath: string, update: () => Promise<T>): Promise<T> {
+  const key = resolve(notesFolderPath.trim())
+  const run = (stateLocks.get(key) || Promise.resolve()).then(update)
+  const queued = run.catch(() => undefined)
+  stateLocks.set(key, queued)
+  try {
+    return await run
+  } finally {
+    if (stateLocks.get(key) === queued) stateLocks.delete(key)
+  }
+}
@@ -0,0 +1,276 @@
+// Tasks across the notes of a space
+// A task is a markdown checkbox (`- [ ] Call the bank`) or a `TODO:` line
+// (`DONE:` once completed). Inline metadata is optional:
+//   due:2026-11-01   due date
+//   !high            priority (!high, !medium, !low)
+//   #tag             tags
+// Tasks are identified by file and line. Updates check that the line still
+// holds the same task and otherwise look for it elsewhere in the file.
+
+import { readFile } from 'fs/promises'
+import { relative, sep } from 'path'
+import { addDays, localDateString } from '@/lib/dates'
+import { writeNoteWithHistory } from '@/lib/history'
+import { readNotesFromFolder } from '@/lib/notes'
+import { resolveSandboxedPath } from '@/lib/sandbox'
+
+export type TaskPriority = 'high' | 'medium' | 'low'
+
+export interface Task {
+  id: string  // relativePath:line
+  filePath: string
+  relativePath: string
+  line: number  // 1-based
+  kind: 'checkbox' | 'todo'
+  text: string  // Task text without due date and priority
+  completed: boolean
+  due?: string  // YYYY-MM-DD
+  priority?: TaskPriority
+  tags: string[]
+}
+
+export interface TaskFilter {
+  status?: 'open' | 'done' | 'all'
+  due?: string  // 'today', 'overdue', 'week', 'none' or a YYYY-MM-DD date
+  tag?: string
+  file?: string  // Part of the relative path
+}
+
+// Identifies a task to update. The text guards against lines that moved.
+export interface TaskReference {
+  filePath: string
+  line: number
+  text?: string
+}
+
+export type TaskUpdate =
+  | { ok: true; filePath: string; previousContent: string; newContent: string; task: Task }
+  | { ok: false; error: string; status: number }
+
+export type TaskUpdateResult =
+  | { ok: true; task: Task; historyId: string }
+  | { ok: false; error: string; status: number }
+
+const CHECKBOX_TASK = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s+)(.*)$/
+const TODO_TASK = /^(\s*(?:[-*+]\s+)?)(TODO|DONE):\s*(.*)$/
+const DUE_DATE = /(^|\s)due:(\d{4}-\d{2}-\d{2})(?=\s|$)/
+const PRIORITY = /(^|\s)!(high|medium|low)(?=\s|$)/i
+const TAG = /(^|\s)#([\w][\w/-]*)/g
+const CODE_FENCE = /^\s*(```|~~~)/
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 }
+
+function parseTaskBody(body: string): Pick<Task, 'text' | 'due' | 'priority' | 'tags'> {
+  const dueMatch = body.match(DUE_DATE)
+  const priorityMatch = body.match(PRIORITY)
+
+  const tags: string[] = []
+  let tagMatch: RegExpExecArray | null
+  TAG.lastIndex = 0
+  while ((tagMatch = TAG.exec(body)) !== null) {
+    // Purely numeric tags are not tags, e.g. "issue #12"
+    if (!/^\d+$/.test(tagMatch[2])) tags.push(tagMatch[2].toLowerCase())
+  }
+
+  const text = body.replace(DUE_DATE, ' ').replace(PRIORITY, ' ').replace(/\s+/g, ' ').trim()
+
+  return {
+    text,
+    due: dueMatch ? dueMatch[2] : undefined,
+    priority: priorityMatch ? (priorityMatch[2].toLowerCase() as TaskPriority) : undefined,
+    tags,
+  }
+}
+
+// Parses a single line, or returns null if it is not a task
+function parseTaskLine(line: string): Pick<Task, 'kind' | 'completed' | 'text' | 'due' | 'priority' | 'tags'> | null {
+  const checkbox = line.match(CHECKBOX_TASK)
+  if (checkbox) {
+    return { kind: 'checkbox', completed: checkbox[2].toLowerCase() === 'x', ...parseTaskBody(checkbox[4]) }
+  }
+
+  const todo = line.match(TODO_TASK)
+  if (todo && todo[3].trim()) {
+    return { kind: 'todo', completed: todo[2] === 'DONE', ...parseTaskBody(todo[3]) }
+  }
+
+  return null
+}
+
+/**
+ * Finds the tasks in a note. Lines inside code blocks are skipped.
+ */
+export function parseTasks(content: string, note: { path: string; relativePath: string }): Task[] {
+  const tasks: Task[] = []
+  let inCodeBlock = false
+
+  content.split('\n').forEach((line, index) => {
+    if (CODE_FENCE.test(line)) {
+      inCodeBlock = !inCodeBlock
+      return
+    }
+    if (inCodeBlock) return
+
+    const parsed = parseTaskLine(line)
+    if (parsed && parsed.text) {
+      tasks.push({
+        id: `${note.relativePath}:${index + 1}`,
+        filePath: note.path,
+        relativePath: note.relativePath,
+        line: index + 1,
+        ...parsed,
+      })
+    }
+  })
+
+  return tasks
+}
+
+/**
+ * Reads the tasks of all notes in a folder
+ */
+export async function readTasks(notesFolderPath: string): Promise<Task[]> {
+  const notes = await readNotesFromFolder(notesFolderPath)
+  return notes.flatMap(note => parseTasks(note.content, note))
+}
+
+function matchesDue(task: Task, due: string, today: string): boolean {
+  switch (due) {
+    case 'today':
+      return task.due === today
+    case 'overdue':
+      return !!task.due && task.due < today && !task.completed
+    case 'week':
+      return !!task.due && task.due >= today && task.due <= addDays(today, 7)
+    case 'none':
+      return !task.due
+    default:
+      return task.due === due
+  }
+}
+
+/**
+ * Filters tasks, then sorts them: open before done, earliest due date first,
+ * higher priority first, then by file and line
+ */
+export function filterTasks<T extends Task>(tasks: T[], filter: TaskFilter = {}): T[] {
+  const status = filter.status || 'open'
+  const today = localDateString()
+  const tag = filter.tag?.replace(/^#/, '').toLowerCase()
+  const file = filter.file?.toLowerCase()
+
+  return tasks
+    .filter(task => status === 'all' || (status === 'done') === task.completed)
+    .filter(task => !filter.due || matchesDue(task, filter.due, today))
+    .filter(task => !tag || task.tags.includes(tag))
+    .filter(task => !file || task.relativePath.toLowerCase().includes(file))
+    .sort((a, b) =>
+      Number(a.completed) - Number(b.completed) ||
+      (a.due || '9999-99-99').localeCompare(b.due || '9999-99-99') ||
+      (a.priority ? PRIORITY_ORDER[a.priority] : 3) - (b.priority ? PRIORITY_ORDER[b.priority] : 3) ||
+      a.relativePath.localeCompare(b.relativePath) ||
+      a.line - b.line)
+}
+
+// Returns the 0-based index of the referenced task, following it if lines moved
+function locateTask(lines: string[], reference: TaskReference): number | string {
+  const index = reference.line - 1
+  const parsed = index >= 0 && index < lines.length ? parseTaskLine(lines[index]) : null
+  const wanted = reference.text?.trim().toLowerCase()
+
+  if (parsed && (!wanted || parsed.text.toLowerCase() === wanted)) {
+    return index
+  }
+  if (!wanted) {
+    return `Line ${reference.line} is not a task.`
+  }
+
+  const candidates: number[] = []
+  lines.forEach((line, i) => {
+    if (parseTaskLine(line)?.text.toLowerCase() === wanted) candidates.push(i)
+  })
+
+  if (candidates.length === 1) {
+    return candidates[0]
+  }
+  return candidates.length === 0
+    ? `The task "${reference.text}" is no longer in the file.`
+    : `The task "${reference.text}" appears ${candidates.length} times in the file and moved from line ${reference.line}.`
+}
+
+/**
+ * Computes the new content of a note after changing one task line,
+ * without writing it
+ */
+export async function prepareTaskUpdate(
+  notesFolderPath: string,
+  reference: TaskReference,
+  transform: (line: string) => string,
+): Promise<TaskUpdate> {
+  const resolved = await resolveSandboxedPath(notesFolderPath, reference.filePath)
+  if (!resolved.ok) {
+    return { ok: false, error: resolved.error, status: 403 }
+  }
+  if (!resolved.exists) {
+    return { ok: false, error: `${reference.filePath} does not exist`, status: 404 }
+  }
+
+  const previousContent = await readFile(resolved.path, 'utf-8')
+  const lines = previousContent.split('\n')
+  const index = locateTask(lines, reference)
+  if (typeof index === 'string') {
+    return { ok: false, error: index, status: 409 }
+  }
+
+  lines[index] = transform(lines[index])
+  const newContent = lines.join('\n')
+  const relativePath = relative(notesFolderPath.trim(), resolved.path).split(sep).join('/')
+  const task = parseTasks(newContent, { path: resolved.path, relativePath }).find(t => t.line === index + 1)!
+
+  return { ok: true, filePath: resolved.path, previousContent, newContent, task }
+}
+
+/**
+ * Marks a task line as done (or open again). Checkboxes are ticked,
+ * TODO: lines become DONE: lines.
+ */
+export function setTaskLineCompleted(line: string, completed: boolean): string {
+  const checkbox = line.match(CHECKBOX_TASK)
+  if (checkbox) {
+    return `${checkbox[1]}${completed ? 'x' : ' '}${checkbox[3]}${checkbox[4]}`
+  }
+
+  const todo = line.match(TODO_TASK)
+  if (todo) {
+    return `${todo[1]}${completed ? 'DONE' : 'TODO'}: ${todo[3]}`
+  }
+
+  return line
+}
+
+/**
+ * Sets, replaces or removes (with null) the due date of a task line
+ */
+export function setTaskLineDueDate(line: string, due: string | null): string {
+  if (!DUE_DATE.test(line)) {
+    return due ? `${line.replace(/\s+$/, '')} due:${due}` : line
+  }
+  return due ? line.replace(DUE_DATE, `$1due:${due}`) : line.replace(/\s+due:\d{4}-\d{2}-\d{2}(?=\s|$)/, '')
+}
+
+/**
+ * Completes (or reopens) a task in its source file, recording the edit in the history
+ */
+export async function completeTask(
+  notesFolderPath: string,
+  reference: TaskReference,
+  completed: boolean = true,
+): Promise<TaskUpdateResult> {
+  const update = await prepareTaskUpdate(notesFolderPath, reference, line => setTaskLineCompleted(line, completed))
+  if (!update.ok) {
+    return update
+  }
+
+  const entry = await writeNoteWithHistory(notesFolderPath, update.filePath, update.newContent, 'completeTask')
+  return { ok: true, task: update.task, historyId: entry.id }
+}
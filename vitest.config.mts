@@ -0,0 +1,13 @@
+import { resolve } from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': resolve(__dirname) },
+  },
+  // The tests cover lib/ only, so Tailwind's PostCSS setup is not loaded
+  css: { postcss: {} },
+  test: {
+    include: ['lib/**/*.test.ts'],
+  },
+})